@@ -0,0 +1,261 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import {
+  config,
+  findProfile,
+  getActiveProfileName,
+  isActionsEnabled,
+  runWithProfile,
+} from "./config.js";
+import { fetchBookmark, updateBookmark } from "./karakeep.js";
+import { logger } from "./logger.js";
+import { recordReviewFeedback } from "./reviews.js";
+import { snoozeBookmark } from "./snooze.js";
+import type { BookmarkAction } from "./types.js";
+
+const SNOOZE_DAYS = 30;
+const ACTIONS: BookmarkAction[] = ["archive", "favourite", "snooze", "remembered", "forgotten"];
+
+const ACTION_LABELS: Record<BookmarkAction, { verb: string; done: string }> = {
+  archive: { verb: "Archive", done: "Archived" },
+  favourite: { verb: "Favourite", done: "Favourited" },
+  snooze: { verb: `Snooze for ${SNOOZE_DAYS} days`, done: `Snoozed for ${SNOOZE_DAYS} days` },
+  remembered: { verb: "I remember this", done: "Got it, you'll see this less often" },
+  forgotten: { verb: "Show me again soon", done: "Got it, this will be back in your next digest" },
+};
+
+interface ActionTokenPayload {
+  id: string;
+  action: BookmarkAction;
+  exp: number;
+  /** Profile whose Karakeep account the bookmark belongs to (multi-profile only) */
+  profile?: string;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", config.actionsSecret!).update(payload).digest("base64url");
+}
+
+/**
+ * Create a signed, expiring token for a bookmark action
+ */
+export function createActionToken(
+  bookmarkId: string,
+  action: BookmarkAction,
+  expiresAt: Date,
+  profile?: string
+): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      id: bookmarkId,
+      action,
+      exp: expiresAt.getTime(),
+      profile,
+    } satisfies ActionTokenPayload)
+  ).toString("base64url");
+
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify an action token's signature and expiry
+ * Returns null if the token is malformed, tampered with or expired
+ */
+export function verifyActionToken(token: string): ActionTokenPayload | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, "base64url").toString()) as ActionTokenPayload;
+    if (!ACTIONS.includes(parsed.action) || parsed.exp < Date.now()) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a one-click action URL for the email
+ */
+export function getActionLink(bookmarkId: string, action: BookmarkAction): string {
+  const expiresAt = new Date(Date.now() + config.actionsTokenDays * 24 * 60 * 60 * 1000);
+  const token = createActionToken(bookmarkId, action, expiresAt, getActiveProfileName());
+  return `${config.actionsUrl!.replace(/\/$/, "")}/action?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Perform an action against Karakeep (or the local snooze and review stores)
+ * Returns false if there was nothing to update
+ */
+async function performAction(bookmarkId: string, action: BookmarkAction): Promise<boolean> {
+  switch (action) {
+    case "archive":
+      await updateBookmark(bookmarkId, { archived: true });
+      break;
+    case "favourite":
+      await updateBookmark(bookmarkId, { favourited: true });
+      break;
+    case "snooze":
+      snoozeBookmark(bookmarkId, new Date(Date.now() + SNOOZE_DAYS * 24 * 60 * 60 * 1000));
+      break;
+    case "remembered":
+    case "forgotten":
+      return recordReviewFeedback(bookmarkId, action);
+  }
+  return true;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function sendPage(res: ServerResponse, status: number, title: string, body: string): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 20px; color: #333; text-align: center">
+    <h1 style="font-size: 20px">${escapeHtml(title)}</h1>
+    ${body}
+    <p><a href="${escapeHtml(config.karakeepUrl)}" style="color: #0066cc">Open Karakeep</a></p>
+  </body>
+</html>`);
+}
+
+/**
+ * Look up a bookmark title for the confirmation page, falling back to the ID
+ */
+async function describeBookmark(bookmarkId: string): Promise<string> {
+  try {
+    const bookmark = await fetchBookmark(bookmarkId);
+    return bookmark.title || bookmarkId;
+  } catch {
+    return bookmarkId;
+  }
+}
+
+/**
+ * Handle an action request
+ * GET shows a confirmation form and POST performs the action, so link scanners
+ * that prefetch URLs in emails can't trigger actions by accident
+ */
+async function handleAction(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || "/", "http://localhost");
+
+  if (url.pathname !== "/action" || (req.method !== "GET" && req.method !== "POST")) {
+    sendPage(res, 404, "Not found", "");
+    return;
+  }
+
+  const token = url.searchParams.get("token") || "";
+  const payload = verifyActionToken(token);
+  const profile = payload?.profile === undefined ? undefined : findProfile(payload.profile);
+  if (!payload || (payload.profile !== undefined && !profile)) {
+    sendPage(res, 400, "Link expired or invalid", "<p>This action link can no longer be used.</p>");
+    return;
+  }
+
+  // Talk to the Karakeep account of the profile that sent the link
+  if (profile) {
+    await runWithProfile(profile, () => respondToAction(req, res, token, payload));
+  } else {
+    await respondToAction(req, res, token, payload);
+  }
+}
+
+/**
+ * Show the confirmation form (GET) or perform the action (POST) for a verified token
+ */
+async function respondToAction(
+  req: IncomingMessage,
+  res: ServerResponse,
+  token: string,
+  payload: ActionTokenPayload
+): Promise<void> {
+  const labels = ACTION_LABELS[payload.action];
+  const title = await describeBookmark(payload.id);
+
+  if (req.method === "GET") {
+    sendPage(
+      res,
+      200,
+      `${labels.verb}?`,
+      `<p>${escapeHtml(title)}</p>
+    <form method="post" action="/action?token=${encodeURIComponent(token)}">
+      <button type="submit" style="font-size: 16px; padding: 8px 20px">${escapeHtml(labels.verb)}</button>
+    </form>`
+    );
+    return;
+  }
+
+  try {
+    if (!(await performAction(payload.id, payload.action))) {
+      logger.info(`Action ${payload.action} had nothing to update for ${payload.id}`);
+      sendPage(
+        res,
+        200,
+        "Nothing to update",
+        `<p>${escapeHtml(title)}</p>
+    <p>This bookmark isn't scheduled for review any more.</p>`
+      );
+      return;
+    }
+    logger.info(`Action ${payload.action} performed on bookmark ${payload.id}`);
+    sendPage(res, 200, labels.done, `<p>${escapeHtml(title)}</p>`);
+  } catch (error) {
+    logger.error(`Action ${payload.action} failed for ${payload.id}`, { error });
+    sendPage(
+      res,
+      502,
+      "Something went wrong",
+      "<p>Karakeep could not be updated. Try again later.</p>"
+    );
+  }
+}
+
+/**
+ * Start the HTTP server that handles one-click actions from the email
+ * Returns the server, or undefined if action links are disabled
+ */
+export function startActionServer(): Server | undefined {
+  if (!isActionsEnabled()) {
+    return undefined;
+  }
+
+  const server = createServer((req, res) => {
+    handleAction(req, res).catch((error) => {
+      logger.error("Action request failed", { error });
+      if (!res.headersSent) {
+        sendPage(res, 500, "Something went wrong", "");
+      }
+    });
+  });
+
+  // E.g. the port is already in use: digests still go out, only their action links fail
+  server.on("error", (error) => {
+    logger.error(`Action server failed on port ${config.actionsPort}`, { error });
+  });
+
+  server.listen(config.actionsPort, () => {
+    logger.info(`Action server listening on port ${config.actionsPort} (${config.actionsUrl})`);
+  });
+  return server;
+}
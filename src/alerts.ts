@@ -0,0 +1,57 @@
+import { config, getActiveProfileName } from "./config.js";
+import { postJson } from "./delivery.js";
+import { sendAlertEmail } from "./email.js";
+import { getRunId, logger } from "./logger.js";
+import type { DigestStage } from "./types.js";
+
+/**
+ * Tell the admin (ALERT_EMAIL and/or ALERT_WEBHOOK_URL) that a digest run failed
+ * Never throws: a failed alert is only logged, so it can't hide the run's own error
+ */
+export async function sendFailureAlert(stage: DigestStage, error: unknown): Promise<void> {
+  if (!config.alertEmail && !config.alertWebhookUrl) {
+    return;
+  }
+
+  const profile = getActiveProfileName();
+  const runId = getRunId();
+  const message = (error as Error).message;
+  const time = new Date().toISOString();
+
+  const subject = `Karakeep Digest failed${profile ? ` for "${profile}"` : ""} (${stage})`;
+  const text = [
+    subject,
+    "",
+    `Stage: ${stage}`,
+    `Error: ${message}`,
+    `Run ID: ${runId ?? "none"}`,
+    ...(profile ? [`Profile: ${profile}`] : []),
+    `Time: ${time}`,
+  ].join("\n");
+
+  if (config.alertEmail) {
+    try {
+      await sendAlertEmail(subject, text);
+    } catch (alertError) {
+      logger.error("Failed to send alert email", { error: alertError });
+    }
+  }
+
+  if (config.alertWebhookUrl) {
+    try {
+      // "text" makes the alert readable in Slack-compatible webhooks as well
+      await postJson(config.alertWebhookUrl, {
+        event: "digest.failed",
+        text,
+        stage,
+        error: message,
+        runId,
+        profile,
+        time,
+      });
+      logger.info("Alert webhook sent");
+    } catch (alertError) {
+      logger.error("Failed to send alert webhook", { error: alertError });
+    }
+  }
+}
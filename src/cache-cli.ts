@@ -0,0 +1,52 @@
+import { parseArgs } from "node:util";
+import { invalidateSummaryCache } from "./cache.js";
+import { getProfiles, runWithProfile } from "./config.js";
+import { logger } from "./logger.js";
+
+const USAGE =
+  "Usage: cache-cli [--bookmark <id>] [--prompt <name>] [--model <provider/model>] [--all] [--profile <name>]";
+
+/**
+ * Invalidate summary cache entries in every profile's cache (or just --profile / PROFILE's)
+ * Usage: cache-cli [--bookmark <id>] [--prompt <name>] [--model <provider/model>] [--all] [--profile <name>]
+ */
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      bookmark: { type: "string" },
+      prompt: { type: "string" },
+      model: { type: "string" },
+      all: { type: "boolean", default: false },
+      profile: { type: "string" },
+    },
+  });
+
+  if (!values.bookmark && !values.prompt && !values.model && !values.all) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+  if (values.profile) {
+    process.env.PROFILE = values.profile;
+  }
+
+  const profiles = getProfiles();
+  for (const profile of profiles) {
+    const removed = runWithProfile(profile, () =>
+      invalidateSummaryCache({
+        bookmarkId: values.bookmark,
+        prompt: values.prompt,
+        model: values.model,
+      })
+    );
+
+    const scope = profiles.length > 1 ? ` for profile "${profile.name}"` : "";
+    console.log(`Removed ${removed} summary cache entries${scope}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  logger.error("Cache invalidation failed", { error });
+  process.exit(1);
+}
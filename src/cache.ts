@@ -0,0 +1,218 @@
+import { createHash } from "node:crypto";
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { Bookmark } from "./types.js";
+
+const CACHE_FILE = "summary-cache.json";
+const CACHE_MAX_UNUSED_DAYS = 180; // Drop entries that haven't been used in ~6 months
+
+/**
+ * Everything a cached LLM result depends on
+ */
+export interface SummaryCacheKey {
+  bookmarks: Bookmark[];
+  prompt: string;
+  promptVersion: string;
+  model: string;
+  scope?: string;
+}
+
+export interface SummaryCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+export interface SummaryCacheFilter {
+  bookmarkId?: string;
+  prompt?: string;
+  model?: string;
+}
+
+interface SummaryCacheEntry {
+  bookmarkIds: string[];
+  prompt: string;
+  promptVersion: string;
+  model: string;
+  createdAt: string;
+  lastUsedAt: string;
+  value: unknown;
+}
+
+interface SummaryCacheFile {
+  entries: Record<string, SummaryCacheEntry>;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Hash of the bookmark fields that feed into a summary
+ * Changes when Karakeep re-crawls the page or the inline content is edited
+ */
+export function contentVersion(bookmark: Bookmark): string {
+  return sha256(
+    JSON.stringify([
+      bookmark.title,
+      bookmark.summary,
+      bookmark.content?.crawledAt,
+      bookmark.content?.contentAssetId,
+      bookmark.content?.htmlContent,
+      bookmark.content?.text,
+    ])
+  ).slice(0, 16);
+}
+
+/**
+ * Short version hash for a prompt template, so editing a prompt invalidates its entries
+ */
+export function promptVersion(template: string): string {
+  return sha256(template).slice(0, 12);
+}
+
+function buildKey(key: SummaryCacheKey): string {
+  return sha256(
+    JSON.stringify([
+      key.bookmarks.map((b) => [b.id, contentVersion(b)]),
+      key.prompt,
+      key.promptVersion,
+      key.model,
+      key.scope ?? null,
+    ])
+  );
+}
+
+function loadEntries(): Record<string, SummaryCacheEntry> {
+  const file = readJsonFile<SummaryCacheFile>(dataPath(CACHE_FILE), { entries: {} });
+  return file.entries && typeof file.entries === "object" ? file.entries : {};
+}
+
+function saveEntries(entries: Record<string, SummaryCacheEntry>): void {
+  writeJsonFile(dataPath(CACHE_FILE), { entries } satisfies SummaryCacheFile);
+}
+
+/**
+ * Persistent cache of LLM summaries, loaded once per run
+ */
+export class SummaryCache {
+  private entries: Record<string, SummaryCacheEntry>;
+  private stats: SummaryCacheStats = { hits: 0, misses: 0, writes: 0 };
+  private dirty = false;
+
+  private constructor(
+    private enabled: boolean,
+    entries: Record<string, SummaryCacheEntry>
+  ) {
+    this.entries = entries;
+  }
+
+  /**
+   * Load the cache from the data directory (or an inert cache if disabled)
+   */
+  static load(): SummaryCache {
+    if (!config.summaryCache) {
+      return new SummaryCache(false, {});
+    }
+    return new SummaryCache(true, loadEntries());
+  }
+
+  get<T>(key: SummaryCacheKey): T | null {
+    return this.getFromAny<T>(key, [key.model])?.value ?? null;
+  }
+
+  /**
+   * Look up a result produced by any of the given models, in order
+   * Returns the value along with the model that produced it
+   */
+  getFromAny<T>(
+    key: Omit<SummaryCacheKey, "model">,
+    models: string[]
+  ): { value: T; model: string } | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    for (const model of models) {
+      const entry = this.entries[buildKey({ ...key, model })];
+      if (entry) {
+        this.stats.hits++;
+        entry.lastUsedAt = new Date().toISOString();
+        this.dirty = true;
+        return { value: entry.value as T, model };
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  set<T>(key: SummaryCacheKey, value: T): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    this.entries[buildKey(key)] = {
+      bookmarkIds: key.bookmarks.map((b) => b.id),
+      prompt: key.prompt,
+      promptVersion: key.promptVersion,
+      model: key.model,
+      createdAt: now,
+      lastUsedAt: now,
+      value,
+    };
+    this.stats.writes++;
+    this.dirty = true;
+  }
+
+  getStats(): SummaryCacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Persist changes, dropping entries that haven't been used in a long time
+   */
+  save(): void {
+    if (!this.enabled || !this.dirty) {
+      return;
+    }
+
+    const cutoff = Date.now() - CACHE_MAX_UNUSED_DAYS * 24 * 60 * 60 * 1000;
+    for (const [key, entry] of Object.entries(this.entries)) {
+      if (new Date(entry.lastUsedAt).getTime() < cutoff) {
+        delete this.entries[key];
+      }
+    }
+
+    saveEntries(this.entries);
+    this.dirty = false;
+  }
+}
+
+/**
+ * Remove cache entries matching every given filter field (no filters = clear everything)
+ * Returns the number of entries removed
+ */
+export function invalidateSummaryCache(filter: SummaryCacheFilter = {}): number {
+  const entries = loadEntries();
+  let removed = 0;
+
+  for (const [key, entry] of Object.entries(entries)) {
+    const matches =
+      (!filter.bookmarkId || entry.bookmarkIds.includes(filter.bookmarkId)) &&
+      (!filter.prompt || entry.prompt === filter.prompt) &&
+      (!filter.model || entry.model === filter.model);
+
+    if (matches) {
+      delete entries[key];
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    saveEntries(entries);
+  }
+
+  return removed;
+}
@@ -1,14 +1,25 @@
-import { getPriorityTags, isDebugEnabled } from "./config.js";
-import type { Bookmark, DigestSections, ScoredBookmark } from "./types.js";
-
-const BURIED_TREASURE_DAYS = 30;
-const BURIED_TREASURE_COUNT = 3;
-const THIS_MONTH_LAST_YEAR_COUNT = 3;
-const MAX_ITEMS_PER_SECTION = 5;
-const MIN_TAG_ITEMS = 3;
+import { clusterByEmbedding } from "./clustering.js";
+import { getPriorityTags } from "./config.js";
+import { extractReadableText } from "./content.js";
+import { collapseDuplicates, findDuplicateGroups } from "./duplicates.js";
+import { getLastYearDateRange } from "./karakeep.js";
+import { logger } from "./logger.js";
+import { createRng, createSeed, type Rng, randomInt, shuffle, weightedShuffle } from "./random.js";
+import { isDueForReview, orderForReview } from "./reviews.js";
+import type {
+  Bookmark,
+  BookmarkPools,
+  DigestSection,
+  DigestSections,
+  ReviewState,
+  ScoredBookmark,
+  SectionDefinition,
+} from "./types.js";
+
 const MIN_CONTENT_LENGTH = 100;
-const RECENTLY_SAVED_COUNT = 3;
-const RECENTLY_SAVED_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Topic clusters to look for per topic roundup; each roundup only takes the most coherent one
+const CLUSTERS_PER_ROUNDUP = 5;
 
 /**
  * Calculate priority score for a bookmark
@@ -45,7 +56,7 @@ function calculatePriorityScore(bookmark: Bookmark, now: Date): number {
 /**
  * Get scored and sorted bookmarks
  */
-function _getScoreBookmarks(bookmarks: Bookmark[], now: Date): ScoredBookmark[] {
+function getScoredBookmarks(bookmarks: Bookmark[], now: Date): ScoredBookmark[] {
   return bookmarks
     .map((b) => ({
       ...b,
@@ -72,110 +83,307 @@ function buildTagFrequencyMap(bookmarks: Bookmark[]): Map<string, Bookmark[]> {
 }
 
 /**
- * Find a random qualifying tag with at least MIN_TAG_ITEMS bookmarks
+ * Group bookmarks into topic clusters from their embeddings, most coherent first
+ * Aims for clusters of about twice the section size, so there is some choice within each,
+ * but at most CLUSTERS_PER_ROUNDUP per topic roundup, so a large library stays cheap to cluster
+ */
+function buildEmbeddingClusterMap(
+  bookmarks: Bookmark[],
+  embeddings: Map<string, number[]>,
+  count: number,
+  roundups: number
+): Map<string, Bookmark[]> {
+  const k = Math.max(
+    1,
+    Math.min(Math.round(bookmarks.length / (count * 2)), roundups * CLUSTERS_PER_ROUNDUP)
+  );
+  const clusters = clusterByEmbedding(bookmarks, embeddings, k);
+  return new Map(clusters.map((cluster, index) => [`cluster-${index + 1}`, cluster.items]));
+}
+
+/**
+ * Find the groups (tags or clusters) with at least `minItems` available bookmarks, in map order
+ * Recently featured bookmarks are only counted if no group qualifies without them
+ */
+function findQualifyingGroups(
+  tagMap: Map<string, Bookmark[]>,
+  usedIds: Set<string>,
+  recentlyFeatured: Map<string, Date>,
+  minItems: number
+): { tag: string; bookmarks: Bookmark[] }[] {
+  const collectQualifying = (includeFeatured: boolean) => {
+    const qualifyingTags: { tag: string; bookmarks: Bookmark[] }[] = [];
+
+    for (const [tag, bookmarks] of tagMap) {
+      // Filter out already-used (and optionally recently featured) bookmarks
+      const available = bookmarks.filter(
+        (b) => !usedIds.has(b.id) && (includeFeatured || !recentlyFeatured.has(b.id))
+      );
+
+      if (available.length >= minItems) {
+        qualifyingTags.push({ tag, bookmarks: bookmarks.filter((b) => !usedIds.has(b.id)) });
+      }
+    }
+
+    return qualifyingTags;
+  };
+
+  const qualifyingTags = collectQualifying(false);
+  return qualifyingTags.length > 0 ? qualifyingTags : collectQualifying(true);
+}
+
+/**
+ * Find a random qualifying tag with at least `minItems` available bookmarks
  * Randomly selects from all qualifying tags to provide variety across digests
  */
 function findTopTag(
   tagMap: Map<string, Bookmark[]>,
-  usedIds: Set<string>
+  usedIds: Set<string>,
+  recentlyFeatured: Map<string, Date>,
+  minItems: number,
+  rng: Rng
 ): { tag: string; bookmarks: Bookmark[] } | null {
-  // Collect all qualifying tags (those with enough available bookmarks)
-  const qualifyingTags: { tag: string; bookmarks: Bookmark[] }[] = [];
-
-  for (const [tag, bookmarks] of tagMap) {
-    // Filter out already-used bookmarks
-    const available = bookmarks.filter((b) => !usedIds.has(b.id));
-
-    if (available.length >= MIN_TAG_ITEMS) {
-      qualifyingTags.push({
-        tag,
-        bookmarks: available.slice(0, MAX_ITEMS_PER_SECTION),
-      });
-    }
-  }
+  const qualifyingTags = findQualifyingGroups(tagMap, usedIds, recentlyFeatured, minItems);
 
   if (qualifyingTags.length === 0) {
     return null;
   }
 
   // Randomly select from qualifying tags
-  const randomIndex = Math.floor(Math.random() * qualifyingTags.length);
-  return qualifyingTags[randomIndex];
+  return qualifyingTags[randomInt(rng, qualifyingTags.length)];
 }
 
 /**
- * Categorize bookmarks into digest sections
+ * Order candidates according to a section's selection strategy
  */
-export function categorize(
+function orderByStrategy(
   bookmarks: Bookmark[],
-  lastYearBookmarks: Bookmark[] = [],
-  archivedBookmarks: Bookmark[] = []
-): DigestSections {
-  const now = new Date();
-  const usedIds = new Set<string>();
+  strategy: SectionDefinition["strategy"],
+  now: Date,
+  reviews: Map<string, ReviewState>,
+  rng: Rng
+): Bookmark[] {
+  switch (strategy) {
+    case "top-scored":
+      return getScoredBookmarks(bookmarks, now);
+    case "oldest":
+      return [...bookmarks].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    case "spaced-repetition":
+      return orderForReview(bookmarks, reviews, now);
+    case "weighted":
+      // Random, but higher-priority bookmarks are more likely to come first
+      return weightedShuffle(bookmarks, (b) => calculatePriorityScore(b, now) + 1, rng);
+    default:
+      return shuffle(bookmarks, rng);
+  }
+}
 
-  // Filter out bookmarks without sufficient content
-  const validBookmarks = filterSufficientContent(bookmarks);
-  const validLastYear = filterSufficientContent(lastYearBookmarks);
-  const validArchived = filterSufficientContent(archivedBookmarks);
-
-  // Recently Saved: 3 random unread from last 30 days
-  const recentlySaved = getRecentlySaved(
-    validBookmarks,
-    RECENTLY_SAVED_DAYS,
-    RECENTLY_SAVED_COUNT,
-    now
-  );
-  for (const b of recentlySaved) usedIds.add(b.id);
+/**
+ * Pick up to `count` bookmarks in strategy order, preferring ones not featured in recent digests
+ * When the fresh pool runs dry, tops up with the least recently featured bookmarks
+ */
+function pickPreferringFresh(
+  candidates: Bookmark[],
+  count: number,
+  recentlyFeatured: Map<string, Date>,
+  order: (bookmarks: Bookmark[]) => Bookmark[]
+): Bookmark[] {
+  const fresh = candidates.filter((b) => !recentlyFeatured.has(b.id));
+  const picked = order(fresh).slice(0, count);
+
+  if (picked.length < count) {
+    const featured = candidates
+      .filter((b) => recentlyFeatured.has(b.id))
+      .sort(
+        (a, b) => recentlyFeatured.get(a.id)!.getTime() - recentlyFeatured.get(b.id)!.getTime()
+      );
+    picked.push(...featured.slice(0, count - picked.length));
+  }
 
-  // Buried Treasure: 30+ days old, still unread
-  const thirtyDaysAgo = new Date(now.getTime() - BURIED_TREASURE_DAYS * 24 * 60 * 60 * 1000);
+  return picked;
+}
 
-  const buriedCandidates = validBookmarks.filter(
-    (b) => !usedIds.has(b.id) && b.createdAt < thirtyDaysAgo
-  );
-  const buriedTreasure = [...buriedCandidates]
-    .sort(() => Math.random() - 0.5)
-    .slice(0, BURIED_TREASURE_COUNT);
+/**
+ * Get the candidate bookmarks for a section's source
+ */
+export function getSourceBookmarks(
+  pools: BookmarkPools,
+  definition: SectionDefinition
+): Bookmark[] {
+  switch (definition.source) {
+    case "unread":
+      return pools.unread;
+    case "archived":
+      return pools.archived;
+    case "favourites":
+      return [...pools.unread, ...pools.archived].filter((b) => b.favourited);
+    case "all":
+      return [...pools.unread, ...pools.archived];
+    case "list":
+      return pools.lists.get(definition.listId!) ?? [];
+  }
+}
+
+/**
+ * Check a bookmark against a section's age window and tag filters
+ */
+function matchesFilters(bookmark: Bookmark, definition: SectionDefinition, now: Date): boolean {
+  const ageDays = (now.getTime() - bookmark.createdAt.getTime()) / DAY_MS;
+
+  if (definition.minAgeDays !== undefined && ageDays < definition.minAgeDays) {
+    return false;
+  }
 
-  for (const b of buriedTreasure) usedIds.add(b.id);
+  if (definition.maxAgeDays !== undefined && ageDays > definition.maxAgeDays) {
+    return false;
+  }
 
-  // This Month Last Year: random selection from both unread and archived last year bookmarks
-  const lastYearCandidates = [...validLastYear, ...validArchived].filter((b) => !usedIds.has(b.id));
-  const thisMonthLastYear = [...lastYearCandidates]
-    .sort(() => Math.random() - 0.5)
-    .slice(0, THIS_MONTH_LAST_YEAR_COUNT);
-  for (const b of thisMonthLastYear) usedIds.add(b.id);
+  if (definition.sameMonthLastYear) {
+    const { start, end } = getLastYearDateRange();
+    if (bookmark.createdAt < start || bookmark.createdAt > end) {
+      return false;
+    }
+  }
 
-  // Tag Roundup: Most popular tag with 3+ items
-  const tagMap = buildTagFrequencyMap(validBookmarks);
-  const tagRoundup = findTopTag(tagMap, usedIds);
+  const tags = bookmark.tags.map((t) => t.name.toLowerCase());
 
-  if (tagRoundup) {
-    for (const b of tagRoundup.bookmarks) usedIds.add(b.id);
+  if (
+    definition.includeTags.length > 0 &&
+    !definition.includeTags.some((t) => tags.includes(t.toLowerCase()))
+  ) {
+    return false;
   }
 
-  // Random Pick: Single random selection from remaining
-  const remaining = validBookmarks.filter((b) => !usedIds.has(b.id));
-  const randomPick =
-    remaining.length > 0 ? remaining[Math.floor(Math.random() * remaining.length)] : null;
+  return !definition.excludeTags.some((t) => tags.includes(t.toLowerCase()));
+}
 
-  // From the Archives: Single random selection from archived items (excluding already used)
-  const availableArchived = validArchived.filter((b) => !usedIds.has(b.id));
-  const fromTheArchives =
-    availableArchived.length > 0
-      ? availableArchived[Math.floor(Math.random() * availableArchived.length)]
-      : null;
+/**
+ * Collect every bookmark across sections, deduplicated by ID
+ */
+export function collectSectionBookmarks<T extends Bookmark>(
+  sections: Array<{ bookmarks: T[] }>
+): T[] {
+  const all = sections.flatMap((section) => section.bookmarks);
+  return [...new Map(all.map((b) => [b.id, b])).values()];
+}
+
+/**
+ * Map each bookmark ID to the IDs of every copy of the same article across all pools
+ */
+function buildDuplicateIndex(pools: BookmarkPools): Map<string, string[]> {
+  const all = collectSectionBookmarks([
+    { bookmarks: pools.unread },
+    { bookmarks: pools.archived },
+    ...[...pools.lists.values()].map((bookmarks) => ({ bookmarks })),
+  ]);
+
+  const index = new Map<string, string[]>();
+  for (const group of findDuplicateGroups(all)) {
+    const ids = group.map((b) => b.id);
+    for (const id of ids) index.set(id, ids);
+  }
+  return index;
+}
+
+/**
+ * Categorize bookmarks into digest sections, in definition order
+ * A bookmark (or any copy of the same article) appears in at most one section; empty sections
+ * are dropped. Bookmarks in `recentlyFeatured` (from the digest history) are avoided where possible
+ * All random choices come from `rng`, so the same seed and inputs give the same digest
+ */
+export function categorize(
+  pools: BookmarkPools,
+  definitions: SectionDefinition[],
+  recentlyFeatured: Map<string, Date> = new Map(),
+  rng: Rng = createRng(createSeed())
+): DigestSections {
+  const now = new Date();
+  const usedIds = new Set<string>();
+  const sections: DigestSection[] = [];
+  const duplicates = buildDuplicateIndex(pools);
+  const topicRoundups = definitions.filter(
+    (d) => d.type === "roundup" && d.groupBy === "embedding"
+  ).length;
+
+  for (const definition of definitions) {
+    const reviews = pools.reviews ?? new Map<string, ReviewState>();
+    // Spaced repetition decides itself when a bookmark is worth showing again: only bookmarks
+    // that are due or never shown are candidates, regardless of the digest history
+    const review = definition.strategy === "spaced-repetition";
+    const featured = review ? new Map<string, Date>() : recentlyFeatured;
+
+    // Filter out bookmarks without sufficient content, already used, outside the section's filters
+    // or not yet due for review, and keep one copy of articles saved more than once
+    const candidates = collapseDuplicates(
+      filterSufficientContent(getSourceBookmarks(pools, definition)).filter(
+        (b) =>
+          !usedIds.has(b.id) &&
+          matchesFilters(b, definition, now) &&
+          (!review || isDueForReview(b, reviews, now))
+      )
+    );
+    const order = (bookmarks: Bookmark[]) =>
+      orderByStrategy(bookmarks, definition.strategy, now, reviews, rng);
+
+    let bookmarks: Bookmark[];
+    let tag: string | undefined;
+    let clustered = false;
+
+    if (definition.type === "roundup" && definition.groupBy === "embedding" && pools.embeddings) {
+      // The most coherent topic cluster; it is labelled when summarizing
+      const [cluster] = findQualifyingGroups(
+        buildEmbeddingClusterMap(candidates, pools.embeddings, definition.count, topicRoundups),
+        usedIds,
+        featured,
+        definition.minItems
+      );
+      if (!cluster) {
+        continue;
+      }
+      clustered = true;
+      bookmarks = pickPreferringFresh(cluster.bookmarks, definition.count, featured, order);
+    } else if (definition.type === "roundup") {
+      const topTag = findTopTag(
+        buildTagFrequencyMap(candidates),
+        usedIds,
+        featured,
+        definition.minItems,
+        rng
+      );
+      if (!topTag) {
+        continue;
+      }
+      tag = topTag.tag;
+      bookmarks = pickPreferringFresh(topTag.bookmarks, definition.count, featured, order);
+    } else {
+      bookmarks = pickPreferringFresh(candidates, definition.count, featured, order);
+    }
+
+    if (bookmarks.length === 0) {
+      continue;
+    }
+
+    for (const b of bookmarks) {
+      for (const id of duplicates.get(b.id) ?? [b.id]) usedIds.add(id);
+    }
+
+    sections.push({
+      id: definition.id,
+      title: tag ? definition.title.replace("{tag}", tag) : definition.title,
+      subtitle: definition.subtitle,
+      emoji: definition.emoji,
+      type: definition.type,
+      bookmarks,
+      tag,
+      clustered: clustered || undefined,
+      review: review || undefined,
+    });
+  }
 
   return {
-    recentlySaved,
-    buriedTreasure,
-    thisMonthLastYear,
-    tagRoundup,
-    randomPick,
-    fromTheArchives,
+    sections,
     stats: {
-      totalUnread: bookmarks.length,
+      totalUnread: pools.unread.length,
       generatedAt: now,
     },
   };
@@ -193,17 +401,15 @@ export function daysAgo(date: Date): number {
  * Estimate reading time in minutes based on word count
  */
 export function estimateReadTime(content?: string): number {
-  const debug = isDebugEnabled();
-
   if (!content) {
-    if (debug) console.log("[readTime] No content provided, returning 1 min");
+    logger.debug("[readTime] No content provided, returning 1 min");
     return 1;
   }
 
   const originalLength = content.length;
 
-  // Strip HTML tags if present
-  const textOnly = content.replace(/<[^>]*>/g, " ");
+  // Extract the article text if this is an HTML page
+  const textOnly = extractReadableText(content);
   const strippedLength = textOnly.length;
 
   // Count words by splitting on whitespace and filtering empty strings
@@ -218,17 +424,15 @@ export function estimateReadTime(content?: string): number {
   const minutes = Math.ceil(rawMinutes);
   const clampedMinutes = Math.max(1, Math.min(minutes, 90));
 
-  if (debug) {
-    console.log("[readTime] Debug:", {
-      originalLength,
-      strippedLength,
-      wordCount,
-      rawMinutes: rawMinutes.toFixed(2),
-      ceiledMinutes: minutes,
-      finalMinutes: clampedMinutes,
-      sampleWords: words.slice(0, 5).join(", "),
-    });
-  }
+  logger.debug("[readTime] Estimated reading time", {
+    originalLength,
+    strippedLength,
+    wordCount,
+    rawMinutes: rawMinutes.toFixed(2),
+    ceiledMinutes: minutes,
+    finalMinutes: clampedMinutes,
+    sampleWords: words.slice(0, 5).join(", "),
+  });
 
   return clampedMinutes; // Clamp between 1-90 minutes
 }
@@ -246,18 +450,3 @@ export function filterSufficientContent(bookmarks: Bookmark[]): Bookmark[] {
     return contentLength >= MIN_CONTENT_LENGTH || summaryLength >= MIN_CONTENT_LENGTH;
   });
 }
-
-/**
- * Get random articles from the last N days
- */
-function getRecentlySaved(
-  bookmarks: Bookmark[],
-  days: number,
-  count: number,
-  now: Date
-): Bookmark[] {
-  const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
-  const recent = bookmarks.filter((b) => b.createdAt >= cutoff);
-  const shuffled = [...recent].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, count);
-}
@@ -0,0 +1,64 @@
+// Rough average for English prose, good enough for budgeting prompt sizes
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Convert a token budget into an approximate character budget
+ */
+export function tokensToChars(tokens: number): number {
+  return tokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Split an oversized paragraph on sentence boundaries, hard-cutting sentences that are still too long
+ */
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const part = sentence.slice(start, start + maxChars);
+      if (current && current.length + part.length + 1 > maxChars) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = current ? `${current} ${part}` : part;
+      }
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, breaking on paragraph boundaries where possible
+ */
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) => (p.length > maxChars ? splitParagraph(p, maxChars) : [p]));
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,130 @@
+// Stop refining clusters after this many passes even if assignments still change
+const MAX_ITERATIONS = 20;
+
+/**
+ * A group of items with similar embeddings
+ */
+export interface Cluster<T> {
+  items: T[];
+  /** Mean cosine similarity of the items to the cluster centroid (1 = identical) */
+  cohesion: number;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector));
+  return length === 0 ? vector : vector.map((v) => v / length);
+}
+
+function centroid(vectors: number[][]): number[] {
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < vector.length; i++) {
+      sum[i] += vector[i];
+    }
+  }
+  return normalize(sum);
+}
+
+/**
+ * Pick `k` well-spread starting centroids: the first vector, then repeatedly the vector
+ * least similar to every centroid picked so far (deterministic, unlike random seeding)
+ */
+function seedCentroids(vectors: number[][], k: number): number[][] {
+  const centroids = [vectors[0]];
+  const bestSimilarity = vectors.map((v) => dot(v, vectors[0]));
+
+  while (centroids.length < k) {
+    let farthest = 0;
+    for (let i = 1; i < vectors.length; i++) {
+      if (bestSimilarity[i] < bestSimilarity[farthest]) {
+        farthest = i;
+      }
+    }
+
+    const next = vectors[farthest];
+    centroids.push(next);
+    for (let i = 0; i < vectors.length; i++) {
+      bestSimilarity[i] = Math.max(bestSimilarity[i], dot(vectors[i], next));
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Group items into `k` clusters by cosine similarity of their embeddings (spherical k-means)
+ * Items without an embedding are left out. Returns non-empty clusters, most coherent first
+ */
+export function clusterByEmbedding<T extends { id: string }>(
+  items: T[],
+  embeddings: Map<string, number[]>,
+  k: number
+): Cluster<T>[] {
+  const embedded = items.filter((item) => embeddings.has(item.id));
+  if (embedded.length === 0) {
+    return [];
+  }
+
+  const vectors = embedded.map((item) => normalize(embeddings.get(item.id)!));
+  const centroids = seedCentroids(vectors, Math.min(k, vectors.length));
+  // Similarity of every vector to each centroid, recomputed only when that centroid moves
+  const similarities = centroids.map((center) => vectors.map((v) => dot(v, center)));
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map((_, i) => {
+      let best = 0;
+      for (let c = 1; c < centroids.length; c++) {
+        if (similarities[c][i] > similarities[best][i]) {
+          best = c;
+        }
+      }
+      return best;
+    });
+
+    // Only clusters that gained or lost members move
+    const changed = new Set<number>();
+    for (let i = 0; i < vectors.length; i++) {
+      if (next[i] !== assignments[i]) {
+        changed.add(next[i]);
+        if (assignments[i] !== undefined) changed.add(assignments[i]);
+      }
+    }
+    if (changed.size === 0) {
+      break;
+    }
+    assignments = next;
+
+    const members = centroids.map((): number[][] => []);
+    for (let i = 0; i < vectors.length; i++) {
+      members[assignments[i]].push(vectors[i]);
+    }
+    for (const c of changed) {
+      // Keep a centroid that lost all its members where it is
+      if (members[c].length > 0) {
+        centroids[c] = centroid(members[c]);
+        similarities[c] = vectors.map((v) => dot(v, centroids[c]));
+      }
+    }
+  }
+
+  return centroids
+    .map((_, c) => {
+      const members = embedded
+        .map((item, i) => ({ item, i }))
+        .filter(({ i }) => assignments[i] === c);
+      const cohesion =
+        members.reduce((sum, { i }) => sum + similarities[c][i], 0) / Math.max(members.length, 1);
+      return { items: members.map(({ item }) => item), cohesion };
+    })
+    .filter((cluster) => cluster.items.length > 0)
+    .sort((a, b) => b.cohesion - a.cohesion);
+}
@@ -0,0 +1,139 @@
+import { tokensToChars } from "./chunking.js";
+import { config, getActiveProfileName, type Profile, runWithProfile } from "./config.js";
+import { libraryLines, verifySmtpConnection } from "./email.js";
+import { fetchBookmark, fetchCurrentUser, fetchWholeLibrary } from "./karakeep.js";
+import { computeLibraryStats } from "./library.js";
+import { createProviderChain, createProviders } from "./providers.js";
+import { loadSectionDefinitions } from "./sections.js";
+import { summarizeBookmark } from "./summarizer.js";
+import type { LibraryStats } from "./types.js";
+
+const CHECK_PROMPT = 'Reply with the single word "ok".';
+
+/**
+ * Run one check, printing a ✓/✗ line; returns whether it passed
+ */
+async function runCheck(label: string, check: () => Promise<string>): Promise<boolean> {
+  try {
+    const detail = await check();
+    console.log(`  ✓ ${label}: ${detail}`);
+    return true;
+  } catch (error) {
+    console.log(`  ✗ ${label}: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Check the active profile can run: section definitions, Karakeep URL and API key,
+ * every LLM provider in the chain, and SMTP when email delivery is enabled
+ * Returns whether every check passed
+ */
+async function checkProfile(): Promise<boolean> {
+  const name = getActiveProfileName();
+  console.log(name ? `Checking profile "${name}"...` : "Checking configuration...");
+
+  const results = [
+    await runCheck("Sections", async () => `${loadSectionDefinitions().length} sections`),
+    await runCheck("Karakeep", async () => {
+      const user = await fetchCurrentUser();
+      return `authenticated as ${user.name || user.email || user.id} at ${config.karakeepUrl}`;
+    }),
+  ];
+
+  for (const provider of createProviders()) {
+    results.push(
+      await runCheck(`LLM ${provider.name}`, async () => {
+        await provider.complete(CHECK_PROMPT, 5);
+        return "reachable";
+      })
+    );
+  }
+
+  if (config.deliveryChannels.includes("email")) {
+    results.push(
+      await runCheck("SMTP", async () => {
+        if (!(await verifySmtpConnection())) {
+          throw new Error(`could not connect to ${config.smtpHost}:${config.smtpPort}`);
+        }
+        return `connected to ${config.smtpHost}:${config.smtpPort}`;
+      })
+    );
+  }
+
+  return results.every(Boolean);
+}
+
+/**
+ * Check every profile, returning whether all of them passed
+ */
+export async function checkSetup(profiles: Profile[]): Promise<boolean> {
+  let ok = true;
+  for (const profile of profiles) {
+    ok = (await runWithProfile(profile, checkProfile)) && ok;
+  }
+  return ok;
+}
+
+/**
+ * Print each profile's library counts (as one JSON object with --json), without recording
+ * a snapshot
+ */
+export async function printLibraryStats(profiles: Profile[], json: boolean): Promise<void> {
+  const results: Record<string, LibraryStats> = {};
+
+  for (const profile of profiles) {
+    const stats = await runWithProfile(profile, async () => {
+      const { unread, archived } = await fetchWholeLibrary();
+      return computeLibraryStats(unread, archived);
+    });
+
+    if (json) {
+      results[profile.name] = stats;
+    } else {
+      if (profiles.length > 1) {
+        console.log(`Profile "${profile.name}"`);
+      }
+      console.log(`${libraryLines(stats).join("\n")}\n`);
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify(profiles.length > 1 ? results : Object.values(results)[0], null, 2));
+  }
+}
+
+/**
+ * Summarize one bookmark with the configured providers, bypassing the summary cache,
+ * and print what was sent and what came back
+ * Returns whether the LLM produced a valid summary
+ */
+export async function summarizeOne(bookmarkId: string, showContent: boolean): Promise<boolean> {
+  const bookmark = await fetchBookmark(bookmarkId);
+  const provider = createProviderChain();
+
+  console.log(`Title: ${bookmark.title || "Untitled"}`);
+  console.log(`URL: ${bookmark.url}`);
+  console.log(`Providers: ${provider.providerNames.join(" -> ")}`);
+
+  const { readableContent, readTime, result } = await summarizeBookmark(bookmark, provider);
+  const chunked = readableContent.length > tokensToChars(provider.chunkTokens);
+  console.log(
+    `Content: ${readableContent.length} characters, ${readTime} min read` +
+      (chunked ? ` (over ${provider.chunkTokens} tokens, summarized in chunks first)` : "")
+  );
+
+  if (showContent) {
+    console.log(`\n--- Extracted content ---\n${readableContent}\n--- End of content ---`);
+  }
+
+  if (!result) {
+    console.log(
+      "\nNo valid summary; the digest would fall back to Karakeep's summary or the title"
+    );
+    return false;
+  }
+
+  console.log(`\nSummary (${result.provider}):\n${result.summary.summary}`);
+  return true;
+}
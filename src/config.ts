@@ -1,39 +1,248 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
 import { config as loadEnv } from "dotenv";
 import { z } from "zod";
+import type { DigestScope } from "./types.js";
 
 // Load environment variables
 loadEnv();
 
+export const DELIVERY_CHANNELS = [
+  "email",
+  "slack",
+  "discord",
+  "matrix",
+  "ntfy",
+  "webhook",
+  "feed",
+] as const;
+export type DeliveryChannelName = (typeof DELIVERY_CHANNELS)[number];
+
+export const LLM_PROVIDERS = ["anthropic", "ollama", "openai"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+export const EMBEDDING_PROVIDERS = ["ollama", "openai"] as const;
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+const PROVIDER_REQUIRED_FIELDS = {
+  anthropic: ["anthropicApiKey"],
+  ollama: ["ollamaUrl"],
+  openai: ["openaiModel"],
+} as const;
+
+const CHANNEL_REQUIRED_FIELDS = {
+  email: ["smtpHost", "smtpPort", "smtpUser", "smtpPass", "emailFrom", "emailTo"],
+  slack: ["slackWebhookUrl"],
+  discord: ["discordWebhookUrl"],
+  matrix: ["matrixHomeserverUrl", "matrixAccessToken", "matrixRoomId"],
+  ntfy: ["ntfyUrl"],
+  webhook: ["webhookUrl"],
+  feed: [],
+} as const;
+
+// The single profile built from the environment when PROFILES_CONFIG is unset
+const DEFAULT_PROFILE = "default";
+
+// Settings shared by the whole process, which profiles can't override
+const PROCESS_WIDE_FIELDS = [
+  "runMode",
+  "profilesConfig",
+  "profile",
+  "actionsUrl",
+  "actionsSecret",
+  "actionsPort",
+  "actionsTokenDays",
+  "feedPort",
+  "statusPort",
+  "statusMaxFailures",
+  "previewDir",
+  "previewPort",
+  "previewFixture",
+  "logLevel",
+  "logFormat",
+] as const;
+
+// Settings that must never appear in logs (webhook URLs carry their token in the path)
+const SECRET_FIELDS = [
+  "karakeepApiKey",
+  "anthropicApiKey",
+  "openaiApiKey",
+  "smtpPass",
+  "slackWebhookUrl",
+  "discordWebhookUrl",
+  "matrixAccessToken",
+  "ntfyToken",
+  "webhookUrl",
+  "alertWebhookUrl",
+  "actionsSecret",
+] as const;
+
 const configSchema = z
   .object({
     // Karakeep
     karakeepUrl: z.string().url(),
     karakeepApiKey: z.string().min(1),
 
-    // LLM - at least one must be provided
+    // LLM - LLM_PROVIDER lists providers in fallback order, e.g. "ollama,anthropic"
+    // If unset, inferred from ANTHROPIC_API_KEY/OLLAMA_URL
+    llmProvider: z
+      .string()
+      .transform((val) => [
+        ...new Set(
+          val
+            .split(",")
+            .map((p) => p.trim().toLowerCase())
+            .filter(Boolean)
+        ),
+      ])
+      .pipe(z.array(z.enum(LLM_PROVIDERS)).min(1))
+      .optional(),
     anthropicApiKey: z.string().optional(),
     ollamaUrl: z.string().url().optional(),
     ollamaModel: z.string().default("llama3"),
+    // Give up on an LLM or embeddings request after this long (retried like other transient errors)
+    llmTimeoutSeconds: z.coerce.number().positive().default(120),
 
-    // SMTP
-    smtpHost: z.string().min(1),
-    smtpPort: z.coerce.number().int().positive(),
-    smtpUser: z.string().min(1),
-    smtpPass: z.string().min(1),
+    // Content tokens per LLM call; longer articles are summarized in chunks (map-reduce)
+    anthropicChunkTokens: z.coerce.number().int().min(500).default(4000),
+    ollamaChunkTokens: z.coerce.number().int().min(500).default(1500),
+    openaiChunkTokens: z.coerce.number().int().min(500).default(4000),
+
+    // OpenAI-compatible chat completions API (OpenAI, llama.cpp, vLLM, LM Studio, LiteLLM, ...)
+    openaiBaseUrl: z.string().url().default("https://api.openai.com/v1"),
+    openaiApiKey: z.string().min(1).optional(), // Not needed by most local servers
+    openaiModel: z.string().min(1).optional(),
+    openaiTemperature: z.coerce.number().min(0).max(2).optional(),
+    // Request response_format json_object (not supported by every server)
+    openaiJsonMode: z
+      .enum(["true", "false", ""])
+      .default("")
+      .transform((val) => val === "true"),
+
+    // Embeddings for roundups grouped by topic (sections with "groupBy": "embedding")
+    embeddingProvider: z.enum(EMBEDDING_PROVIDERS).optional(),
+    ollamaEmbeddingModel: z.string().min(1).default("nomic-embed-text"),
+    openaiEmbeddingModel: z.string().min(1).default("text-embedding-3-small"),
+
+    // Delivery channels (comma-separated): email, slack, discord, matrix, ntfy, webhook
+    deliveryChannels: z
+      .string()
+      .default("email")
+      .transform((val) =>
+        val
+          .split(",")
+          .map((c) => c.trim().toLowerCase())
+          .filter(Boolean)
+      )
+      .pipe(z.array(z.enum(DELIVERY_CHANNELS)).min(1)),
+
+    // SMTP (required for the email channel)
+    smtpHost: z.string().min(1).optional(),
+    smtpPort: z.coerce.number().int().positive().optional(),
+    smtpUser: z.string().min(1).optional(),
+    smtpPass: z.string().min(1).optional(),
     // If not set, auto-detect: port 465 = true (implicit TLS), others = false (STARTTLS)
     smtpSecure: z
       .enum(["true", "false", ""])
       .optional()
       .transform((val) => (val === "true" ? true : val === "false" ? false : undefined)),
 
-    // Email addresses
-    emailFrom: z.string().email(),
-    emailTo: z.string().min(1), // Can be comma-separated
+    // Email addresses (required for the email channel)
+    emailFrom: z.string().email().optional(),
+    emailTo: z.string().min(1).optional(), // Can be comma-separated
+
+    // Chat/push channels
+    slackWebhookUrl: z.string().url().optional(),
+    discordWebhookUrl: z.string().url().optional(),
+    matrixHomeserverUrl: z.string().url().optional(),
+    matrixAccessToken: z.string().min(1).optional(),
+    matrixRoomId: z.string().min(1).optional(),
+    ntfyUrl: z.string().url().optional(), // Full topic URL, e.g. https://ntfy.sh/my-digest
+    ntfyToken: z.string().min(1).optional(),
+    webhookUrl: z.string().url().optional(), // Generic JSON webhook
+
+    // Failure alerts: told when a run fails (the email one goes out over the SMTP settings)
+    alertEmail: z.string().email().optional(),
+    alertWebhookUrl: z.string().url().optional(),
+
+    // Atom feed channel
+    feedPath: z.string().min(1).optional(), // Defaults to DATA_DIR/feed.xml
+    feedUrl: z.string().url().optional(), // Public URL of the feed (self link)
+    feedMaxDigests: z.coerce.number().int().positive().default(10),
+    feedItems: z
+      .enum(["true", "false", ""])
+      .default("")
+      .transform((val) => val === "true"),
+    feedPort: z.coerce.number().int().nonnegative().default(0), // Serve the feed in daemon mode
 
     // Digest configuration
     priorityTags: z.string().default("important,work,reference"),
     cronSchedule: z.string().default("0 8 * * 0"), // Sunday at 8am
-    runMode: z.enum(["cli", "daemon"]).default("cli"),
+    sectionsConfig: z.string().min(1).optional(), // JSON file of section definitions
+
+    // Digest scope (all optional, default = whole library)
+    digestQuery: z.string().optional(), // Karakeep search query, e.g. "#work -#recipes is:fav"
+    digestLists: z.string().default(""), // Comma-separated list IDs
+    digestTags: z.string().default(""), // Comma-separated tag names to include
+    digestExcludeTags: z.string().default(""), // Comma-separated tag names to exclude
+
+    // Write-back to Karakeep after a digest is sent (all optional)
+    writebackTag: z.string().optional(), // e.g. "digest:{date}"
+    writebackList: z.string().optional(), // List name or ID, created if missing
+    writebackSummary: z.enum(["none", "note", "summary"]).default("none"),
+    writebackDryRun: z
+      .enum(["true", "false", ""])
+      .default("")
+      .transform((val) => val === "true"),
+
+    // One-click actions from the email (enabled when both URL and secret are set)
+    actionsUrl: z.string().url().optional(), // Public base URL of the daemon's action server
+    actionsSecret: z.string().min(16).optional(), // HMAC key for signing action links
+    actionsPort: z.coerce.number().int().positive().default(8080),
+    actionsTokenDays: z.coerce.number().int().positive().default(14),
+
+    runMode: z.enum(["cli", "daemon", "preview"]).default("cli"),
+    // Daemon mode: serve /healthz, /readyz, /status and /metrics on this port (0 = disabled)
+    statusPort: z.coerce.number().int().nonnegative().default(0),
+    // Consecutive failed runs of a profile after which /readyz reports not ready
+    statusMaxFailures: z.coerce.number().int().positive().default(3),
+
+    // Preview mode: render to PREVIEW_DIR instead of sending, optionally serve on PREVIEW_PORT
+    previewDir: z.string().min(1).default("./preview"),
+    previewPort: z.coerce.number().int().nonnegative().default(0),
+    previewFixture: z.string().optional(),
+
+    // Persistence (history, caches) - mount this as a volume in Docker
+    dataDir: z.string().min(1).default("./data"),
+    // Skip bookmarks featured in the last N digests or the last N days (0 = disabled)
+    historyDigests: z.coerce.number().int().nonnegative().default(4),
+    historyDays: z.coerce.number().int().nonnegative().default(0),
+    // Cache LLM summaries in DATA_DIR so unchanged bookmarks aren't re-summarized
+    summaryCache: z
+      .enum(["true", "false", ""])
+      .default("")
+      .transform((val) => val !== "false"),
+    // Seed for the random picks; reusing a logged seed replays that run's selection
+    digestSeed: z.string().min(1).optional(),
+
+    // "Your Library" statistics section, with backlog trends over the last N weeks
+    libraryStats: z
+      .enum(["true", "false", ""])
+      .default("")
+      .transform((val) => val === "true"),
+    libraryTrendWeeks: z.coerce.number().int().positive().default(8),
+
+    // Multi-profile: JSON file of profiles, and optionally the one profile to run
+    profilesConfig: z.string().min(1).optional(),
+    profile: z.string().min(1).optional(),
+
+    // Logging: minimum level (default info, or debug with DEBUG_LOGS) and text or JSON lines
+    logLevel: z.enum(LOG_LEVELS).optional(),
+    logFormat: z.enum(["text", "json"]).default("text"),
 
     // Debug
     debugLogs: z
@@ -41,42 +250,345 @@ const configSchema = z
       .default("")
       .transform((val) => val === "true"),
   })
-  .refine((data) => data.anthropicApiKey || data.ollamaUrl, {
-    message: "Either ANTHROPIC_API_KEY or OLLAMA_URL must be provided",
+  .refine((data) => data.llmProvider || data.anthropicApiKey || data.ollamaUrl, {
+    message: "Set LLM_PROVIDER, or provide ANTHROPIC_API_KEY or OLLAMA_URL",
+  })
+  .superRefine((data, ctx) => {
+    // Each selected LLM provider needs its own settings
+    for (const provider of data.llmProvider ?? []) {
+      for (const field of PROVIDER_REQUIRED_FIELDS[provider]) {
+        if (!data[field]) {
+          ctx.addIssue({
+            code: "custom",
+            path: [field],
+            message: `Required for the ${provider} LLM provider`,
+          });
+        }
+      }
+    }
+
+    if (data.embeddingProvider === "ollama" && !data.ollamaUrl) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ollamaUrl"],
+        message: "Required for the ollama embedding provider",
+      });
+    }
+
+    // Each enabled delivery channel needs its own settings
+    for (const channel of data.deliveryChannels) {
+      for (const field of CHANNEL_REQUIRED_FIELDS[channel]) {
+        if (data[field] === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            path: [field],
+            message: `Required for the ${channel} delivery channel`,
+          });
+        }
+      }
+    }
+
+    // Alert emails go out over the same SMTP server as the digest
+    if (data.alertEmail) {
+      for (const field of CHANNEL_REQUIRED_FIELDS.email.filter((f) => f !== "emailTo")) {
+        if (data[field] === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            path: [field],
+            message: "Required for ALERT_EMAIL",
+          });
+        }
+      }
+    }
   });
 
-function loadConfig() {
-  const result = configSchema.safeParse({
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * A named digest configuration with its own Karakeep account, recipients and schedule
+ */
+export interface Profile {
+  name: string;
+  config: Config;
+}
+
+export type RawConfig = Record<string, string | undefined>;
+
+const profilesFileSchema = z.object({
+  profiles: z
+    .array(
+      z
+        .object({
+          name: z
+            .string()
+            .regex(/^[a-z0-9][a-z0-9_-]*$/, "Use lowercase letters, digits, - and _")
+            .refine((name) => name !== DEFAULT_PROFILE, `"${DEFAULT_PROFILE}" is reserved`),
+        })
+        .catchall(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
+    )
+    .min(1)
+    .refine((profiles) => new Set(profiles.map((p) => p.name)).size === profiles.length, {
+      message: "Profile names must be unique",
+    }),
+});
+
+/**
+ * Read the raw config values from the environment
+ */
+function readEnvConfig(): RawConfig {
+  return {
     karakeepUrl: process.env.KARAKEEP_URL,
     karakeepApiKey: process.env.KARAKEEP_API_KEY,
+    llmProvider: process.env.LLM_PROVIDER || undefined,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     ollamaUrl: process.env.OLLAMA_URL,
     ollamaModel: process.env.OLLAMA_MODEL,
-    smtpHost: process.env.SMTP_HOST,
-    smtpPort: process.env.SMTP_PORT,
-    smtpUser: process.env.SMTP_USER,
-    smtpPass: process.env.SMTP_PASS,
+    llmTimeoutSeconds: process.env.LLM_TIMEOUT_SECONDS || undefined,
+    anthropicChunkTokens: process.env.ANTHROPIC_CHUNK_TOKENS || undefined,
+    ollamaChunkTokens: process.env.OLLAMA_CHUNK_TOKENS || undefined,
+    openaiChunkTokens: process.env.OPENAI_CHUNK_TOKENS || undefined,
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || undefined,
+    openaiApiKey: process.env.OPENAI_API_KEY || undefined,
+    openaiModel: process.env.OPENAI_MODEL || undefined,
+    openaiTemperature: process.env.OPENAI_TEMPERATURE || undefined,
+    openaiJsonMode: process.env.OPENAI_JSON_MODE,
+    embeddingProvider: process.env.EMBEDDING_PROVIDER || undefined,
+    ollamaEmbeddingModel: process.env.OLLAMA_EMBEDDING_MODEL || undefined,
+    openaiEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL || undefined,
+    deliveryChannels: process.env.DELIVERY_CHANNELS || undefined,
+    smtpHost: process.env.SMTP_HOST || undefined,
+    smtpPort: process.env.SMTP_PORT || undefined,
+    smtpUser: process.env.SMTP_USER || undefined,
+    smtpPass: process.env.SMTP_PASS || undefined,
     smtpSecure: process.env.SMTP_SECURE,
-    emailFrom: process.env.EMAIL_FROM,
-    emailTo: process.env.EMAIL_TO,
+    emailFrom: process.env.EMAIL_FROM || undefined,
+    emailTo: process.env.EMAIL_TO || undefined,
+    slackWebhookUrl: process.env.SLACK_WEBHOOK_URL || undefined,
+    discordWebhookUrl: process.env.DISCORD_WEBHOOK_URL || undefined,
+    matrixHomeserverUrl: process.env.MATRIX_HOMESERVER_URL || undefined,
+    matrixAccessToken: process.env.MATRIX_ACCESS_TOKEN || undefined,
+    matrixRoomId: process.env.MATRIX_ROOM_ID || undefined,
+    ntfyUrl: process.env.NTFY_URL || undefined,
+    ntfyToken: process.env.NTFY_TOKEN || undefined,
+    webhookUrl: process.env.WEBHOOK_URL || undefined,
+    alertEmail: process.env.ALERT_EMAIL || undefined,
+    alertWebhookUrl: process.env.ALERT_WEBHOOK_URL || undefined,
+    feedPath: process.env.FEED_PATH || undefined,
+    feedUrl: process.env.FEED_URL || undefined,
+    feedMaxDigests: process.env.FEED_MAX_DIGESTS || undefined,
+    feedItems: process.env.FEED_ITEMS,
+    feedPort: process.env.FEED_PORT || undefined,
     priorityTags: process.env.PRIORITY_TAGS,
+    digestQuery: process.env.DIGEST_QUERY || undefined,
+    digestLists: process.env.DIGEST_LISTS,
+    digestTags: process.env.DIGEST_TAGS,
+    digestExcludeTags: process.env.DIGEST_EXCLUDE_TAGS,
     cronSchedule: process.env.CRON_SCHEDULE,
+    sectionsConfig: process.env.SECTIONS_CONFIG || undefined,
+    writebackTag: process.env.WRITEBACK_TAG || undefined,
+    writebackList: process.env.WRITEBACK_LIST || undefined,
+    writebackSummary: process.env.WRITEBACK_SUMMARY || undefined,
+    writebackDryRun: process.env.WRITEBACK_DRY_RUN,
+    actionsUrl: process.env.ACTIONS_URL || undefined,
+    actionsSecret: process.env.ACTIONS_SECRET || undefined,
+    actionsPort: process.env.ACTIONS_PORT || undefined,
+    actionsTokenDays: process.env.ACTIONS_TOKEN_DAYS || undefined,
     runMode: process.env.RUN_MODE,
+    statusPort: process.env.STATUS_PORT || undefined,
+    statusMaxFailures: process.env.STATUS_MAX_FAILURES || undefined,
+    previewDir: process.env.PREVIEW_DIR || undefined,
+    previewPort: process.env.PREVIEW_PORT || undefined,
+    previewFixture: process.env.PREVIEW_FIXTURE || undefined,
+    dataDir: process.env.DATA_DIR || undefined,
+    historyDigests: process.env.HISTORY_DIGESTS || undefined,
+    historyDays: process.env.HISTORY_DAYS || undefined,
+    summaryCache: process.env.SUMMARY_CACHE,
+    digestSeed: process.env.DIGEST_SEED || undefined,
+    libraryStats: process.env.LIBRARY_STATS,
+    libraryTrendWeeks: process.env.LIBRARY_TREND_WEEKS || undefined,
+    profilesConfig: process.env.PROFILES_CONFIG || undefined,
+    profile: process.env.PROFILE || undefined,
+    logLevel: process.env.LOG_LEVEL?.toLowerCase() || undefined,
+    logFormat: process.env.LOG_FORMAT?.toLowerCase() || undefined,
     debugLogs: process.env.DEBUG_LOGS,
-  });
+  };
+}
+
+/**
+ * Invalid configuration, with one message per problem
+ */
+export class ConfigError extends Error {
+  constructor(
+    summary: string,
+    readonly issues: string[]
+  ) {
+    super(`${summary}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Validate raw config values (as they would come from the environment) into a config
+ * Throws a ConfigError listing every problem if they are invalid
+ */
+export function createConfig(raw: RawConfig, label = "Configuration"): Config {
+  const result = configSchema.safeParse(raw);
 
   if (!result.success) {
-    console.error("Configuration validation failed:");
-    result.error.issues.forEach((issue) => {
-      console.error(`  - ${issue.path.join(".")}: ${issue.message}`);
-    });
-    process.exit(1);
+    throw new ConfigError(
+      `${label} validation failed`,
+      result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
   }
 
   return result.data;
 }
 
-export const config = loadConfig();
+/**
+ * Load the profiles from PROFILES_CONFIG
+ * Each profile inherits every setting from the environment and overrides what differs,
+ * and keeps its history, caches and feed in its own DATA_DIR/profiles/<name> by default
+ */
+export function loadProfiles(env: RawConfig): Profile[] {
+  const path = env.profilesConfig!;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(`Failed to read profiles from ${path}`, [(error as Error).message]);
+  }
+
+  const result = profilesFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid profiles in ${path}`,
+      result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+  const file = result.data;
+
+  const shape = configSchema.shape;
+  const knownFields = new Set(Object.keys(shape));
+  const processWide = new Set<string>(PROCESS_WIDE_FIELDS);
+
+  const profiles = file.profiles.map(({ name, ...overrides }) => {
+    const raw: RawConfig = {
+      ...env,
+      dataDir: join(env.dataDir || "./data", "profiles", name),
+    };
+
+    for (const [field, value] of Object.entries(overrides)) {
+      if (!knownFields.has(field) || processWide.has(field)) {
+        throw new ConfigError(`Invalid profile "${name}"`, [
+          `"${field}" is not a per-profile setting`,
+        ]);
+      }
+      const text = Array.isArray(value) ? value.join(",") : String(value);
+      // Like an empty environment variable, "" clears an inherited value (back to the default)
+      // unless it is valid on its own, e.g. no priority tags
+      const clears = text === "" && !shape[field as keyof typeof shape].safeParse("").success;
+      raw[field] = clears ? undefined : text;
+    }
+
+    return { name, config: createConfig(raw, `Profile "${name}"`) };
+  });
+
+  // E.g. FEED_PATH set in the environment: each profile would overwrite the others' feed
+  const feedOwners = new Map<string, string>();
+  for (const { name, config } of profiles) {
+    if (!config.feedPath || !config.deliveryChannels.includes("feed")) {
+      continue;
+    }
+    const owner = feedOwners.get(resolve(config.feedPath));
+    if (owner) {
+      throw new ConfigError(`Invalid profiles in ${path}`, [
+        `"${owner}" and "${name}" share the feed ${config.feedPath}: give each profile its own feedPath, or leave FEED_PATH unset to keep each feed in the profile's DATA_DIR`,
+      ]);
+    }
+    feedOwners.set(resolve(config.feedPath), name);
+  }
+
+  return profiles;
+}
+
+const activeProfile = new AsyncLocalStorage<Profile>();
+let envProfiles: { profiles: Profile[]; baseConfig: Config } | undefined;
+
+/**
+ * Load the configuration (and profiles) from the environment on first use, so modules can be
+ * imported, e.g. by tests running with their own config, without a valid environment
+ * Throws a ConfigError if the environment or profiles are invalid
+ */
+function loadEnvProfiles(): { profiles: Profile[]; baseConfig: Config } {
+  if (!envProfiles) {
+    const envConfig = readEnvConfig();
+    const profiles = envConfig.profilesConfig ? loadProfiles(envConfig) : [];
+    envProfiles = { profiles, baseConfig: profiles[0]?.config ?? createConfig(envConfig) };
+  }
+  return envProfiles;
+}
+
+/**
+ * The active configuration: the current profile's inside runWithProfile(),
+ * otherwise the environment's (or the first profile's when profiles are configured)
+ */
+export const config: Config = new Proxy({} as Config, {
+  get: (_target, field) =>
+    Reflect.get(activeProfile.getStore()?.config ?? loadEnvProfiles().baseConfig, field),
+});
+
+/**
+ * Check if PROFILES_CONFIG defines multiple profiles
+ */
+export function isMultiProfile(): boolean {
+  return loadEnvProfiles().profiles.length > 0;
+}
+
+/**
+ * Get the profiles to run: every configured profile (or just PROFILE),
+ * or a single "default" profile built from the environment
+ */
+export function getProfiles(): Profile[] {
+  const { profiles, baseConfig } = loadEnvProfiles();
+  if (profiles.length === 0) {
+    return [{ name: DEFAULT_PROFILE, config: baseConfig }];
+  }
+
+  if (baseConfig.profile) {
+    const selected = profiles.filter((p) => p.name === baseConfig.profile);
+    if (selected.length === 0) {
+      throw new ConfigError("Invalid PROFILE", [`Unknown profile "${baseConfig.profile}"`]);
+    }
+    return selected;
+  }
+
+  return profiles;
+}
+
+/**
+ * Find a configured profile by name
+ */
+export function findProfile(name: string): Profile | undefined {
+  return loadEnvProfiles().profiles.find((p) => p.name === name);
+}
+
+/**
+ * Run a function with `config` bound to a profile, including any async work it starts
+ * Tests use this with a profile built by createConfig() to inject their own settings
+ */
+export function runWithProfile<T>(profile: Profile, fn: () => T): T {
+  return activeProfile.run(profile, fn);
+}
+
+/**
+ * Name of the profile the current code runs for (undefined without PROFILES_CONFIG)
+ * Doesn't load the environment, so it also works for profiles injected by tests
+ */
+export function getActiveProfileName(): string | undefined {
+  const name = activeProfile.getStore()?.name;
+  return name === DEFAULT_PROFILE ? undefined : name;
+}
 
 /**
  * Get priority tags as an array
@@ -89,25 +601,95 @@ export function getPriorityTags(): string[] {
 }
 
 /**
- * Determine which LLM provider to use
+ * Split a comma-separated config value into trimmed, non-empty entries
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the configured digest scope (query, lists and tag rules)
  */
-export function getLLMProvider(): "anthropic" | "ollama" {
-  return config.anthropicApiKey ? "anthropic" : "ollama";
+export function getDigestScope(): DigestScope {
+  return {
+    query: config.digestQuery?.trim() || undefined,
+    listIds: splitList(config.digestLists),
+    includeTags: splitList(config.digestTags),
+    excludeTags: splitList(config.digestExcludeTags),
+  };
+}
+
+/**
+ * Determine which LLM providers to use, in fallback order
+ * Without LLM_PROVIDER, uses Anthropic if its key is set, otherwise Ollama
+ */
+export function getLLMProviders(): LLMProviderName[] {
+  return config.llmProvider ?? [config.anthropicApiKey ? "anthropic" : "ollama"];
+}
+
+/**
+ * Get the embedding provider: EMBEDDING_PROVIDER, else the first LLM provider that has embeddings
+ */
+export function getEmbeddingProvider(): EmbeddingProviderName | undefined {
+  return (
+    config.embeddingProvider ??
+    getLLMProviders().find((p): p is EmbeddingProviderName =>
+      (EMBEDDING_PROVIDERS as readonly string[]).includes(p)
+    )
+  );
 }
 
 /**
  * Get email recipients as array
  */
 export function getEmailRecipients(): string[] {
-  return config.emailTo
+  return (config.emailTo ?? "")
     .split(",")
     .map((e) => e.trim())
     .filter(Boolean);
 }
 
+/**
+ * Check if one-click email actions are configured
+ */
+export function isActionsEnabled(): boolean {
+  return Boolean(config.actionsUrl && config.actionsSecret);
+}
+
 /**
  * Check if debug logging is enabled
  */
 export function isDebugEnabled(): boolean {
-  return config.debugLogs;
+  return getLogLevel() === "debug";
+}
+
+/**
+ * Get the minimum log level: LOG_LEVEL, else debug with DEBUG_LOGS, else info
+ */
+export function getLogLevel(): LogLevel {
+  return config.logLevel ?? (config.debugLogs ? "debug" : "info");
+}
+
+/**
+ * Get the configured secrets (API keys, passwords, tokens) of every loaded profile, so the
+ * logger can redact them whichever profile, if any, a line is logged for
+ */
+export function getSecrets(): string[] {
+  const configs: Config[] = [];
+  const active = activeProfile.getStore();
+  if (active) {
+    configs.push(active.config);
+  }
+  try {
+    const { profiles, baseConfig } = loadEnvProfiles();
+    configs.push(baseConfig, ...profiles.map((p) => p.config));
+  } catch {
+    // Invalid environment: only an injected profile's secrets are known
+  }
+
+  const secrets = configs.flatMap((c) => SECRET_FIELDS.map((field) => c[field]));
+  return [...new Set(secrets.filter((value): value is string => Boolean(value)))];
 }
@@ -0,0 +1,204 @@
+import type { Bookmark } from "./types.js";
+
+// Elements that never contain article text
+const NON_CONTENT_TAGS = [
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "button",
+  "select",
+];
+
+// Page furniture around the article
+const BOILERPLATE_TAGS = ["nav", "header", "footer", "aside", "form", "dialog", "menu"];
+
+// Tags whose boundaries separate blocks of text
+const BLOCK_TAG_PATTERN =
+  /<\/?(?:p|div|section|article|main|h[1-6]|li|ul|ol|dl|dt|dd|tr|table|blockquote|pre|figure|figcaption|br|hr)\b[^>]*>/gi;
+
+// Blocks with more than this share of their text inside links are navigation, not prose
+const MAX_LINK_DENSITY = 0.5;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  times: "×",
+  euro: "€",
+  pound: "£",
+};
+
+/**
+ * Decode HTML entities (named ones we know about, plus all numeric ones)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      try {
+        return String.fromCodePoint(codePoint);
+      } catch {
+        return entity;
+      }
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Collapse runs of spaces within lines and blank lines between paragraphs
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v\u00a0]+/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function looksLikeHtml(content: string): boolean {
+  return /<(?:!doctype|html|body|div|p|article|main|section|span|a|br|h[1-6]|li)\b[^>]*>/i.test(
+    content
+  );
+}
+
+function removeElements(html: string, tags: string[]): string {
+  const pattern = new RegExp(`<(${tags.join("|")})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, "gi");
+  return html.replace(pattern, " ");
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, " ");
+}
+
+/**
+ * Pick the element most likely to hold the article: the longest <article>, then <main>, then <body>
+ */
+function selectMainContent(html: string): string {
+  const textLength = (fragment: string) => stripTags(fragment).replace(/\s+/g, "").length;
+
+  const articles = [...html.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article\s*>/gi)].map(
+    (m) => m[1]
+  );
+  const longestArticle = articles.sort((a, b) => textLength(b) - textLength(a))[0];
+  // Ignore teaser cards that happen to use <article>
+  if (longestArticle && textLength(longestArticle) >= 500) {
+    return longestArticle;
+  }
+
+  const main =
+    html.match(/<main\b[^>]*>([\s\S]*?)<\/main\s*>/i) ??
+    html.match(/<(div|section)\b[^>]*role=["']main["'][^>]*>([\s\S]*)<\/\1\s*>/i);
+  if (main) {
+    return main[main.length - 1];
+  }
+
+  return html.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i)?.[1] ?? html;
+}
+
+/**
+ * Share of a block's text that sits inside links
+ */
+function linkDensity(block: string): number {
+  const total = stripTags(block).replace(/\s+/g, "").length;
+  if (total === 0) {
+    return 0;
+  }
+
+  const linked = [...block.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a\s*>/gi)]
+    .map((m) => stripTags(m[1]).replace(/\s+/g, "").length)
+    .reduce((sum, length) => sum + length, 0);
+
+  return linked / total;
+}
+
+/**
+ * Readability-style extraction of the article text from an HTML page
+ */
+function extractFromHtml(html: string): string {
+  let content = html.replace(/<!--[\s\S]*?-->/g, " ");
+  content = removeElements(content, NON_CONTENT_TAGS);
+  content = selectMainContent(content);
+  content = removeElements(content, BOILERPLATE_TAGS);
+
+  // Drop link-heavy blocks (menus, tag clouds, "related posts") and keep the prose
+  const blocks = content
+    .replace(/<li\b[^>]*>/gi, "\n<li>- ")
+    .split(BLOCK_TAG_PATTERN)
+    .filter((block) => linkDensity(block) <= MAX_LINK_DENSITY)
+    .map((block) => decodeEntities(stripTags(block)).replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  return normalizeWhitespace(blocks.join("\n\n"));
+}
+
+/**
+ * Clean up text extracted from PDFs and other plain-text assets:
+ * re-join words hyphenated across lines and lines hard-wrapped inside paragraphs
+ */
+function cleanPlainText(text: string): string {
+  return normalizeWhitespace(
+    text
+      .replace(/\f/g, "\n\n")
+      .replace(/(\p{L})-\n(\p{Ll})/gu, "$1$2")
+      .replace(/([^\n])\n(?!\n|\s*(?:[-*•]|\d+[.)])\s)/g, "$1 ")
+  );
+}
+
+/**
+ * Turn fetched content (HTML page, plain text or PDF-derived text) into clean article text
+ * Returns an empty string for binary content such as raw PDF files
+ */
+export function extractReadableText(content: string): string {
+  if (content.startsWith("%PDF-")) {
+    return "";
+  }
+
+  return looksLikeHtml(content) ? extractFromHtml(content) : cleanPlainText(content);
+}
+
+/**
+ * Best readable text for a bookmark: the fetched asset, then inline HTML, then inline text
+ */
+export function getReadableContent(bookmark: Bookmark, fetchedContent?: string | null): string {
+  const sources = [fetchedContent, bookmark.content?.htmlContent, bookmark.content?.text];
+
+  for (const source of sources) {
+    const text = source ? extractReadableText(source) : "";
+    if (text) {
+      return text;
+    }
+  }
+
+  return "";
+}
@@ -0,0 +1,439 @@
+import { randomUUID } from "node:crypto";
+import { config, type DeliveryChannelName } from "./config.js";
+import { formatDate, getKarakeepLink, sendDigest, unavailableNote } from "./email.js";
+import { appendToFeed, getFeedPath } from "./feed.js";
+import { logger } from "./logger.js";
+import type { SummarizedBookmark, SummarizedDigest } from "./types.js";
+
+const SLACK_MAX_BLOCKS = 50;
+const SLACK_MAX_TEXT = 3000;
+const DISCORD_MAX_EMBEDS = 10;
+const DISCORD_MAX_TITLE = 256;
+const DISCORD_MAX_DESCRIPTION = 4096;
+// Across all of a message's embeds
+const DISCORD_MAX_EMBED_CHARS = 6000;
+const NTFY_MAX_BODY = 4096;
+
+/**
+ * Digest rendered once and shared by every channel
+ */
+export interface RenderedDigest {
+  digest: SummarizedDigest;
+  html: string;
+  plainText: string;
+}
+
+/**
+ * A destination the digest can be delivered to
+ */
+export interface DeliveryChannel {
+  readonly name: DeliveryChannelName;
+  /** Deliver the digest, returning a message ID or other reference */
+  deliver(rendered: RenderedDigest): Promise<string>;
+}
+
+export interface DeliveryResult {
+  channel: DeliveryChannelName;
+  ok: boolean;
+  reference?: string;
+  error?: string;
+}
+
+/**
+ * Channel-neutral view of a digest section
+ */
+interface SectionView {
+  title: string;
+  subtitle?: string;
+  intro: string[];
+  items: Array<{ title: string; link: string; meta: string; summary?: string }>;
+}
+
+function itemView(item: SummarizedBookmark, withSummary: boolean) {
+  const readTime = item.readTime ? `${item.readTime} min read · ` : "";
+  return {
+    title: item.title || "Untitled",
+    link: getKarakeepLink(item.id),
+    meta: `${readTime}Saved ${item.daysAgo} days ago · ${item.source}`,
+    summary: withSummary ? item.aiSummary : undefined,
+  };
+}
+
+/**
+ * Convert the digest's sections into channel-neutral views
+ */
+function buildSectionViews(digest: SummarizedDigest): SectionView[] {
+  return digest.sections.map((section) => {
+    const synthesis = section.roundup?.synthesis;
+    return {
+      title: section.title,
+      subtitle: section.subtitle,
+      intro: synthesis
+        ? [
+            synthesis.overview,
+            ...synthesis.keyInsights.map((insight) => `• ${insight}`),
+            `Standout: ${synthesis.standout}`,
+          ]
+        : [],
+      // Roundup items are covered by the synthesis, so list them without individual summaries
+      items: section.bookmarks.map((item) => itemView(item, !synthesis)),
+    };
+  });
+}
+
+function digestTitle(digest: SummarizedDigest): string {
+  return `Your Weekly Karakeep Digest - ${formatDate(digest.stats.generatedAt)}`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape text for Slack mrkdwn, where `<...>` is a link or mention and `&` starts an entity
+ */
+function escapeSlack(text: string): string {
+  return escapeHtml(text);
+}
+
+/**
+ * Render a section's subtitle, intro and items as Markdown (ntfy and Discord flavour)
+ */
+function sectionBodyMarkdown(section: SectionView): string {
+  return [
+    ...(section.subtitle ? [`_${section.subtitle}_`] : []),
+    ...section.intro,
+    ...section.items.map(
+      (item) =>
+        `- [${item.title}](${item.link}) (${item.meta})${item.summary ? `\n  ${item.summary}` : ""}`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Render the whole digest as Markdown, ending with the unavailable sections note if any
+ * The sections are truncated to fit `maxLength`, so the note is never cut off
+ */
+function toMarkdown(digest: SummarizedDigest, maxLength = Number.POSITIVE_INFINITY): string {
+  const note = unavailableNote(digest);
+  const footer = note ? `\n\n_${note}_` : "";
+  const body = buildSectionViews(digest)
+    .map((section) => `**${section.title}**\n${sectionBodyMarkdown(section)}`)
+    .join("\n\n");
+  return truncate(body, maxLength - footer.length) + footer;
+}
+
+/**
+ * POST a JSON body, throwing on a non-2xx response
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  method = "POST"
+): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`HTTP ${response.status}: ${text.slice(0, 200)}`);
+  }
+
+  return response;
+}
+
+/**
+ * SMTP email via nodemailer
+ */
+class EmailChannel implements DeliveryChannel {
+  readonly name = "email" as const;
+
+  async deliver({ html, plainText }: RenderedDigest): Promise<string> {
+    return sendDigest(html, plainText);
+  }
+}
+
+/**
+ * Slack incoming webhook with Block Kit
+ */
+class SlackChannel implements DeliveryChannel {
+  readonly name = "slack" as const;
+
+  async deliver({ digest, plainText }: RenderedDigest): Promise<string> {
+    const blocks: unknown[] = [
+      { type: "header", text: { type: "plain_text", text: digestTitle(digest) } },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `${digest.stats.totalUnread} unread items` }],
+      },
+    ];
+
+    for (const section of buildSectionViews(digest)) {
+      blocks.push({ type: "divider" });
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: truncate(
+            [
+              `*${escapeSlack(section.title)}*`,
+              section.subtitle && `_${escapeSlack(section.subtitle)}_`,
+              ...section.intro.map(escapeSlack),
+            ]
+              .filter(Boolean)
+              .join("\n"),
+            SLACK_MAX_TEXT
+          ),
+        },
+      });
+
+      for (const item of section.items) {
+        blocks.push({
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: truncate(
+              `*<${item.link}|${escapeSlack(item.title)}>*\n${escapeSlack(item.meta)}${item.summary ? `\n${escapeSlack(item.summary)}` : ""}`,
+              SLACK_MAX_TEXT
+            ),
+          },
+        });
+      }
+    }
+
+    // The note goes last, kept even when the sections are cut to the block limit
+    const note = unavailableNote(digest);
+    const footer = note
+      ? [{ type: "context", elements: [{ type: "mrkdwn", text: `_${escapeSlack(note)}_` }] }]
+      : [];
+
+    await postJson(config.slackWebhookUrl!, {
+      text: truncate(escapeSlack(plainText), SLACK_MAX_TEXT),
+      blocks: [...blocks.slice(0, SLACK_MAX_BLOCKS - footer.length), ...footer],
+    });
+    return "slack-webhook";
+  }
+}
+
+/**
+ * Discord webhook with one embed per section, spread over as many messages as Discord's
+ * per-message embed limits need
+ */
+class DiscordChannel implements DeliveryChannel {
+  readonly name = "discord" as const;
+
+  async deliver({ digest }: RenderedDigest): Promise<string> {
+    const embeds = buildSectionViews(digest).map((section) => {
+      const title = truncate(section.title, DISCORD_MAX_TITLE);
+      const maxDescription = Math.min(
+        DISCORD_MAX_DESCRIPTION,
+        DISCORD_MAX_EMBED_CHARS - title.length
+      );
+      return { title, description: truncate(sectionBodyMarkdown(section), maxDescription) };
+    });
+
+    const batches: (typeof embeds)[] = [];
+    let batchChars = 0;
+    for (const embed of embeds) {
+      const chars = embed.title.length + embed.description.length;
+      const batch = batches.at(-1);
+      if (
+        batch &&
+        batch.length < DISCORD_MAX_EMBEDS &&
+        batchChars + chars <= DISCORD_MAX_EMBED_CHARS
+      ) {
+        batch.push(embed);
+        batchChars += chars;
+      } else {
+        batches.push([embed]);
+        batchChars = chars;
+      }
+    }
+
+    const url = new URL(config.discordWebhookUrl!);
+    url.searchParams.set("wait", "true");
+
+    // The title and note go with the first message; the others carry only embeds
+    const note = unavailableNote(digest);
+    const content =
+      `**${digestTitle(digest)}** · ${digest.stats.totalUnread} unread items` +
+      (note ? `\n_${note}_` : "");
+
+    const messageIds: string[] = [];
+    for (const [index, batch] of (batches.length > 0 ? batches : [[]]).entries()) {
+      const response = await postJson(url.toString(), {
+        ...(index === 0 ? { content } : {}),
+        embeds: batch,
+      });
+      const message = (await response.json()) as { id: string };
+      messageIds.push(message.id);
+    }
+    return messageIds.join(", ");
+  }
+}
+
+/**
+ * Matrix room message via the client-server API
+ */
+class MatrixChannel implements DeliveryChannel {
+  readonly name = "matrix" as const;
+
+  async deliver({ digest, plainText }: RenderedDigest): Promise<string> {
+    const html = [
+      `<h3>${escapeHtml(digestTitle(digest))}</h3>`,
+      ...buildSectionViews(digest).map(
+        (section) =>
+          `<h4>${escapeHtml(section.title)}</h4>` +
+          section.intro.map((line) => `<p>${escapeHtml(line)}</p>`).join("") +
+          `<ul>${section.items
+            .map(
+              (item) =>
+                `<li><a href="${escapeHtml(item.link)}">${escapeHtml(item.title)}</a> <em>${escapeHtml(item.meta)}</em>${item.summary ? `<br>${escapeHtml(item.summary)}` : ""}</li>`
+            )
+            .join("")}</ul>`
+      ),
+    ];
+    const note = unavailableNote(digest);
+    if (note) {
+      html.push(`<p><em>${escapeHtml(note)}</em></p>`);
+    }
+
+    const baseUrl = config.matrixHomeserverUrl!.replace(/\/$/, "");
+    const roomId = encodeURIComponent(config.matrixRoomId!);
+    const response = await postJson(
+      `${baseUrl}/_matrix/client/v3/rooms/${roomId}/send/m.room.message/${randomUUID()}`,
+      {
+        msgtype: "m.text",
+        body: plainText,
+        format: "org.matrix.custom.html",
+        formatted_body: html.join(""),
+      },
+      { Authorization: `Bearer ${config.matrixAccessToken}` },
+      "PUT"
+    );
+    const event = (await response.json()) as { event_id: string };
+    return event.event_id;
+  }
+}
+
+/**
+ * ntfy push notification with Markdown body
+ */
+class NtfyChannel implements DeliveryChannel {
+  readonly name = "ntfy" as const;
+
+  async deliver({ digest }: RenderedDigest): Promise<string> {
+    const headers: Record<string, string> = {
+      Title: digestTitle(digest),
+      Markdown: "yes",
+      Click: config.karakeepUrl,
+    };
+    if (config.ntfyToken) {
+      headers.Authorization = `Bearer ${config.ntfyToken}`;
+    }
+
+    const response = await fetch(config.ntfyUrl!, {
+      method: "POST",
+      headers,
+      body: toMarkdown(digest, NTFY_MAX_BODY),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const message = (await response.json()) as { id: string };
+    return message.id;
+  }
+}
+
+/**
+ * Generic JSON webhook carrying the full digest and both renderings
+ */
+class WebhookChannel implements DeliveryChannel {
+  readonly name = "webhook" as const;
+
+  async deliver({ digest, html, plainText }: RenderedDigest): Promise<string> {
+    await postJson(config.webhookUrl!, {
+      title: digestTitle(digest),
+      digest,
+      html,
+      plainText,
+    });
+    return "webhook";
+  }
+}
+
+/**
+ * Atom feed file (optionally served by the daemon)
+ */
+class FeedChannel implements DeliveryChannel {
+  readonly name = "feed" as const;
+
+  async deliver({ digest, html }: RenderedDigest): Promise<string> {
+    appendToFeed(digest, html);
+    return getFeedPath();
+  }
+}
+
+/**
+ * Create the channels listed in DELIVERY_CHANNELS
+ */
+export function createChannels(): DeliveryChannel[] {
+  const factories: Record<DeliveryChannelName, () => DeliveryChannel> = {
+    email: () => new EmailChannel(),
+    slack: () => new SlackChannel(),
+    discord: () => new DiscordChannel(),
+    matrix: () => new MatrixChannel(),
+    ntfy: () => new NtfyChannel(),
+    webhook: () => new WebhookChannel(),
+    feed: () => new FeedChannel(),
+  };
+
+  return [...new Set(config.deliveryChannels)].map((name) => factories[name]());
+}
+
+/**
+ * Deliver the digest to every configured channel in parallel
+ * Each channel succeeds or fails independently; throws only if every channel failed
+ */
+export async function deliverDigest(rendered: RenderedDigest): Promise<DeliveryResult[]> {
+  const channels = createChannels();
+
+  const results = await Promise.all(
+    channels.map(async (channel): Promise<DeliveryResult> => {
+      try {
+        const reference = await channel.deliver(rendered);
+        return { channel: channel.name, ok: true, reference };
+      } catch (error) {
+        return { channel: channel.name, ok: false, error: (error as Error).message };
+      }
+    })
+  );
+
+  for (const result of results) {
+    if (result.ok) {
+      logger.info(`  ✓ ${result.channel}: delivered (${result.reference})`, {
+        channel: result.channel,
+      });
+    } else {
+      logger.error(`  ✗ ${result.channel}: failed - ${result.error}`, {
+        channel: result.channel,
+      });
+    }
+  }
+
+  if (results.every((r) => !r.ok)) {
+    throw new Error("Digest delivery failed on every channel");
+  }
+
+  return results;
+}
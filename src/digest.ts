@@ -0,0 +1,294 @@
+import { sendFailureAlert } from "./alerts.js";
+import {
+  categorize,
+  collectSectionBookmarks,
+  filterSufficientContent,
+  getSourceBookmarks,
+} from "./categorizer.js";
+import { config } from "./config.js";
+import { deliverDigest } from "./delivery.js";
+import { findDuplicateGroups } from "./duplicates.js";
+import { renderDigest } from "./email.js";
+import { embedBookmarks } from "./embeddings.js";
+import { collectBookmarkIds, getRecentlyFeatured, loadHistory, recordDigest } from "./history.js";
+import {
+  fetchArchivedBookmarks,
+  fetchBookmarks,
+  fetchListBookmarks,
+  fetchScopedLibrary,
+  fetchWholeLibrary,
+  isDigestScoped,
+} from "./karakeep.js";
+import { computeLibraryStats, recordLibrarySnapshot } from "./library.js";
+import { logger } from "./logger.js";
+import type { ProviderChain } from "./providers.js";
+import { createRng, createSeed } from "./random.js";
+import { loadReviews, recordReviews } from "./reviews.js";
+import { loadSectionDefinitions } from "./sections.js";
+import { filterSnoozed, loadActiveSnoozes } from "./snooze.js";
+import { summarizeSections } from "./summarizer.js";
+import type {
+  Bookmark,
+  BookmarkPools,
+  DigestSections,
+  DigestStage,
+  SectionDefinition,
+  SectionSource,
+  SummarizedDigest,
+} from "./types.js";
+import { writeBackDigest } from "./writeback.js";
+
+export interface DigestOptions {
+  /** LLM provider chain to summarize with, instead of the configured providers (for tests) */
+  provider?: ProviderChain;
+  /** Called as the run enters each stage, so a failure can say where it happened */
+  onStage?: (stage: DigestStage) => void;
+}
+
+/**
+ * A failed digest run, with the stage it failed in (the message is the underlying error's)
+ */
+export class DigestError extends Error {
+  constructor(
+    readonly stage: DigestStage,
+    cause: unknown
+  ) {
+    super((cause as Error).message, { cause });
+    this.name = "DigestError";
+  }
+}
+
+// Section sources that need archived bookmarks fetched
+const ARCHIVED_SOURCES: SectionSource[] = ["archived", "favourites", "all"];
+
+// Title of the "Your Library" section, listed when its statistics are unavailable
+const LIBRARY_TITLE = "Your Library";
+
+/**
+ * Embed the candidates of roundup sections that group by topic
+ * Returns undefined, so those roundups group by tag instead, if there are none or embedding fails
+ */
+async function embedClusterCandidates(
+  pools: BookmarkPools,
+  definitions: SectionDefinition[]
+): Promise<Map<string, number[]> | undefined> {
+  const clustered = definitions.filter((d) => d.type === "roundup" && d.groupBy === "embedding");
+  if (clustered.length === 0) {
+    return undefined;
+  }
+
+  const candidates = collectSectionBookmarks(
+    clustered.map((d) => ({ bookmarks: filterSufficientContent(getSourceBookmarks(pools, d)) }))
+  );
+  logger.info(`Embedding ${candidates.length} bookmarks for topic clusters...`);
+
+  try {
+    return await embedBookmarks(candidates);
+  } catch (error) {
+    logger.warn("Embedding failed, grouping roundups by tag instead", { error });
+    return undefined;
+  }
+}
+
+/**
+ * Fetch, categorize and summarize bookmarks into a digest, with the library its statistics
+ * were computed from
+ * Returns null if there are no unread bookmarks
+ */
+export async function buildDigest(options: DigestOptions = {}): Promise<{
+  sections: DigestSections;
+  summarized: SummarizedDigest;
+  library?: { unread: Bookmark[]; archived: Bookmark[] };
+} | null> {
+  options.onStage?.("config");
+  const definitions = loadSectionDefinitions();
+
+  // 1. Fetch all unread bookmarks; with a search, list or tag scope, the whole scope is fetched
+  // once and serves the archived and list sections too
+  options.onStage?.("fetch");
+  logger.info("Fetching unread bookmarks from Karakeep...");
+  const scoped = await fetchScopedLibrary();
+  const bookmarks = scoped?.unread ?? (await fetchBookmarks({ archived: false }));
+  logger.info(`Fetched ${bookmarks.length} unread bookmarks`, { count: bookmarks.length });
+  const validBookmarks = filterSufficientContent(bookmarks);
+  logger.info(`  (${validBookmarks.length} with sufficient content for summarization)`);
+
+  if (bookmarks.length === 0) {
+    logger.info("No unread bookmarks found. Skipping digest.");
+    return null;
+  }
+
+  const duplicateGroups = findDuplicateGroups(bookmarks);
+  if (duplicateGroups.length > 0) {
+    logger.info(
+      `  (${duplicateGroups.length} articles saved more than once; run "pnpm duplicates:report" to list them)`
+    );
+  }
+
+  // 2. Fetch archived bookmarks if any section (or the library stats) draws from them
+  // Archived and list bookmarks are optional: if they can't be fetched, the sections that need
+  // them are left out and the digest says so
+  // The library stats cover the whole library, so with a digest scope they are fetched separately
+  const libraryScoped = isDigestScoped();
+  let archivedBookmarks: Bookmark[] = [];
+  let archivedAvailable = true;
+  if (
+    (config.libraryStats && !libraryScoped) ||
+    definitions.some((d) => ARCHIVED_SOURCES.includes(d.source))
+  ) {
+    logger.info("Fetching archived bookmarks...");
+    try {
+      archivedBookmarks = scoped?.archived ?? (await fetchArchivedBookmarks());
+      logger.info(`Found ${archivedBookmarks.length} archived bookmarks`);
+      const validArchived = filterSufficientContent(archivedBookmarks);
+      logger.info(`  (${validArchived.length} with sufficient content)`);
+    } catch (error) {
+      archivedAvailable = false;
+      logger.warn("Failed to fetch archived bookmarks, leaving out the sections that need them", {
+        error,
+      });
+    }
+  }
+
+  let library: { unread: Bookmark[]; archived: Bookmark[] } | undefined;
+  if (config.libraryStats && libraryScoped) {
+    logger.info("Fetching the whole library for statistics...");
+    try {
+      library = await fetchWholeLibrary();
+    } catch (error) {
+      logger.warn("Failed to fetch the library, leaving out its statistics", { error });
+    }
+  } else if (config.libraryStats && archivedAvailable) {
+    library = { unread: bookmarks, archived: archivedBookmarks };
+  }
+
+  // 3. Fetch bookmarks for list-sourced sections
+  const lists = new Map<string, Bookmark[]>();
+  const failedLists = new Set<string>();
+  const listIds = new Set(
+    definitions.flatMap((d) => (d.source === "list" && d.listId ? [d.listId] : []))
+  );
+  for (const listId of listIds) {
+    logger.info(`Fetching bookmarks from list ${listId}...`);
+    try {
+      lists.set(listId, await fetchListBookmarks(listId, scoped));
+      logger.info(`Found ${lists.get(listId)!.length} bookmarks`);
+    } catch (error) {
+      failedLists.add(listId);
+      logger.warn(`Failed to fetch list ${listId}, leaving out its sections`, { error });
+    }
+  }
+
+  const isAvailable = (d: SectionDefinition) =>
+    d.source === "list"
+      ? !failedLists.has(d.listId!)
+      : archivedAvailable || !ARCHIVED_SOURCES.includes(d.source);
+  const available = definitions.filter(isAvailable);
+  // Roundup titles with a {tag} placeholder stand for one section per tag
+  const unavailableSections = [
+    ...new Set(
+      definitions
+        .filter((d) => !isAvailable(d))
+        .map((d) => (d.title.includes("{tag}") ? "Topic roundups" : d.title))
+    ),
+  ];
+  if (config.libraryStats && !library) {
+    unavailableSections.push(LIBRARY_TITLE);
+  }
+
+  // 4. Categorize into digest sections, skipping snoozed and avoiding recently featured bookmarks
+  options.onStage?.("categorize");
+  const snoozed = loadActiveSnoozes();
+  const recentlyFeatured = getRecentlyFeatured(loadHistory());
+  logger.info(`Skipping ${snoozed.size} snoozed bookmarks`);
+  logger.info(`Avoiding ${recentlyFeatured.size} bookmarks featured in recent digests`);
+  const pools: BookmarkPools = {
+    unread: filterSnoozed(bookmarks, snoozed),
+    archived: filterSnoozed(archivedBookmarks, snoozed),
+    lists: new Map([...lists].map(([id, list]) => [id, filterSnoozed(list, snoozed)])),
+    reviews: loadReviews(),
+  };
+  pools.embeddings = await embedClusterCandidates(pools, available);
+  const seed = config.digestSeed ?? createSeed();
+  logger.info(`Categorizing bookmarks (seed ${seed}, set DIGEST_SEED=${seed} to replay)...`, {
+    seed,
+  });
+  const sections = categorize(pools, available, recentlyFeatured, createRng(seed));
+
+  logger.info("Sections created:");
+  for (const section of sections.sections) {
+    logger.info(`  - ${section.title}: ${section.bookmarks.length} items`);
+  }
+
+  // 5. Generate AI summaries for each section
+  options.onStage?.("summarize");
+  const summarized = await summarizeSections(sections, options.provider);
+
+  if (unavailableSections.length > 0) {
+    summarized.unavailableSections = unavailableSections;
+  }
+
+  if (library) {
+    logger.info("Computing library statistics...");
+    summarized.library = computeLibraryStats(library.unread, library.archived);
+  }
+
+  return { sections, summarized, library };
+}
+
+/**
+ * Main digest generation and sending flow
+ * Returns the sent digest, or null if there was nothing to send
+ * Throws a DigestError naming the failed stage, after alerting the admin if configured
+ */
+export async function generateAndSendDigest(
+  options: DigestOptions = {}
+): Promise<SummarizedDigest | null> {
+  logger.info("Starting Karakeep Digest...");
+  const startTime = Date.now();
+  const progress: { stage: DigestStage } = { stage: "config" };
+  const enterStage = (stage: DigestStage) => {
+    progress.stage = stage;
+    options.onStage?.(stage);
+  };
+
+  try {
+    const digest = await buildDigest({ ...options, onStage: enterStage });
+    if (!digest) {
+      return null;
+    }
+
+    // 6. Render email
+    enterStage("render");
+    logger.info("Rendering email...");
+    const { html, plainText } = renderDigest(digest.summarized);
+
+    // 7. Deliver to every configured channel
+    enterStage("deliver");
+    logger.info(`Delivering digest via ${config.deliveryChannels.join(", ")}...`);
+    await deliverDigest({ digest: digest.summarized, html, plainText });
+
+    // 8. Record sent bookmarks so upcoming digests don't repeat them, schedule the next
+    // review of spaced-repetition picks, and snapshot the library counts for trends
+    enterStage("record");
+    const sent = recordDigest(collectBookmarkIds(digest.sections));
+    recordReviews(digest.sections);
+    if (digest.summarized.library && digest.library) {
+      recordLibrarySnapshot(digest.summarized.library, digest.library.archived);
+    }
+
+    // 9. Optionally mark digested bookmarks in Karakeep
+    enterStage("writeback");
+    await writeBackDigest(digest.summarized, sent);
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+    logger.info(`Digest completed successfully in ${duration}s`, {
+      durationSeconds: Number(duration),
+    });
+    return digest.summarized;
+  } catch (error) {
+    logger.error("Digest generation failed", { stage: progress.stage, error });
+    await sendFailureAlert(progress.stage, error);
+    throw new DigestError(progress.stage, error);
+  }
+}
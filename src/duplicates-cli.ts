@@ -0,0 +1,95 @@
+import { parseArgs } from "node:util";
+import { getProfiles, type Profile, runWithProfile } from "./config.js";
+import { findDuplicateGroups } from "./duplicates.js";
+import { getKarakeepLink } from "./email.js";
+import { fetchArchivedBookmarks, fetchBookmarks, fetchScopedLibrary } from "./karakeep.js";
+import { logger } from "./logger.js";
+import type { Bookmark } from "./types.js";
+
+/**
+ * Find the profile's bookmarks that were saved more than once
+ */
+async function findProfileDuplicates(): Promise<{ groups: Bookmark[][]; total: number }> {
+  const scoped = await fetchScopedLibrary();
+  const bookmarks = scoped
+    ? [...scoped.unread, ...scoped.archived]
+    : [...(await fetchBookmarks({ archived: false })), ...(await fetchArchivedBookmarks())];
+  return { groups: findDuplicateGroups(bookmarks), total: bookmarks.length };
+}
+
+/**
+ * Print one profile's duplicate groups with links to clean them up
+ */
+function printReport(profile: Profile, groups: Bookmark[][], total: number, multi: boolean): void {
+  if (multi) {
+    console.log(`Profile "${profile.name}"\n`);
+  }
+
+  for (const group of groups) {
+    console.log(`${group[0].title || "Untitled"}`);
+    for (const b of group) {
+      const status = b.archived ? "archived" : "unread";
+      console.log(`  - ${b.createdAt.toISOString().slice(0, 10)} (${status}) ${b.url}`);
+      console.log(`    ${getKarakeepLink(b.id)}`);
+    }
+    console.log("");
+  }
+
+  console.log(
+    `Found ${groups.length} duplicate groups (${groups.reduce((sum, g) => sum + g.length, 0)} bookmarks) among ${total} bookmarks`
+  );
+  if (multi) {
+    console.log("");
+  }
+}
+
+/**
+ * Report bookmarks saved more than once in every profile's Karakeep (or just
+ * --profile / PROFILE's), so they can be cleaned up
+ * Usage: duplicates-cli [--json] [--profile <name>]
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      json: { type: "boolean", default: false },
+      profile: { type: "string" },
+    },
+  });
+  if (values.profile) {
+    process.env.PROFILE = values.profile;
+  }
+
+  const profiles = getProfiles();
+  const reports: Record<string, unknown> = {};
+
+  for (const profile of profiles) {
+    await runWithProfile(profile, async () => {
+      const { groups, total } = await findProfileDuplicates();
+
+      if (values.json) {
+        reports[profile.name] = groups.map((group) =>
+          group.map((b) => ({
+            id: b.id,
+            title: b.title,
+            url: b.url,
+            canonicalUrl: b.canonicalUrl,
+            archived: b.archived,
+            createdAt: b.createdAt.toISOString(),
+            link: getKarakeepLink(b.id),
+          }))
+        );
+      } else {
+        printReport(profile, groups, total, profiles.length > 1);
+      }
+    });
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(profiles.length > 1 ? reports : Object.values(reports)[0], null, 2));
+  }
+}
+
+main().catch((error) => {
+  logger.error("Duplicate report failed", { error });
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+import type { Bookmark } from "./types.js";
+
+// A trailing segment after a spaced separator, e.g. "Title | Hacker News" or "Title - The Verge"
+const TITLE_SUFFIX = /\s+[|–—-]\s+([^|–—-]{1,40})$/;
+
+// Sites whose pages are titled after the article they link to
+const AGGREGATOR_NAMES = ["hacker news", "reddit", "lobsters", "medium"];
+
+// Shorter titles ("Home", "Untitled") match too often to mean the same article
+const MIN_TITLE_WORDS = 3;
+
+/**
+ * Check whether a title suffix names the site: an aggregator, or the bookmark's own domain
+ * ("The Verge" on theverge.com), so "Part 1 - Intro" and "Part 1 - Outro" stay different
+ */
+function isSiteName(suffix: string, source?: string): boolean {
+  const letters = suffix.replace(/[^\p{L}\p{N}]/gu, "");
+  return (
+    AGGREGATOR_NAMES.includes(suffix.trim()) ||
+    (letters.length >= 3 && (source ?? "").replace(/[^\p{L}\p{N}]/gu, "").includes(letters))
+  );
+}
+
+/**
+ * Reduce a title to its words, ignoring case, accents, punctuation and a trailing site name
+ */
+export function normalizeTitle(title: string, source?: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .trim()
+    .replace(TITLE_SUFFIX, (suffix, name: string) => (isSiteName(name, source) ? "" : suffix))
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Keys two copies of the same article would share: canonical URL and normalized title
+ */
+function duplicateKeys(bookmark: Bookmark): string[] {
+  const keys: string[] = [];
+
+  if (bookmark.canonicalUrl) {
+    keys.push(`url:${bookmark.canonicalUrl}`);
+  }
+
+  const title = normalizeTitle(bookmark.title ?? "", bookmark.source);
+  if (title.split(" ").length >= MIN_TITLE_WORDS) {
+    keys.push(`title:${title}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Group bookmarks that are copies of the same article (same canonical URL or near-identical title)
+ * Only groups of two or more are returned, each in input order
+ */
+export function findDuplicateGroups(bookmarks: Bookmark[]): Bookmark[][] {
+  // Union-find, so A~B by URL and B~C by title end up in one group
+  const parent = bookmarks.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const firstWithKey = new Map<string, number>();
+  for (const [index, bookmark] of bookmarks.entries()) {
+    for (const key of duplicateKeys(bookmark)) {
+      const first = firstWithKey.get(key);
+      if (first === undefined) {
+        firstWithKey.set(key, index);
+      } else {
+        parent[find(index)] = find(first);
+      }
+    }
+  }
+
+  const groups = new Map<number, Bookmark[]>();
+  for (const [index, bookmark] of bookmarks.entries()) {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), bookmark]);
+  }
+
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * The copy to keep from a duplicate group: the one with the most content, then the oldest
+ */
+function preferredCopy(group: Bookmark[]): Bookmark {
+  const contentLength = (b: Bookmark) =>
+    (b.content?.htmlContent || b.content?.text || b.summary || "").length;
+
+  return [...group].sort(
+    (a, b) => contentLength(b) - contentLength(a) || a.createdAt.getTime() - b.createdAt.getTime()
+  )[0];
+}
+
+/**
+ * Keep one copy of each duplicated article, preserving order
+ */
+export function collapseDuplicates(bookmarks: Bookmark[]): Bookmark[] {
+  const dropped = new Set<string>();
+  for (const group of findDuplicateGroups(bookmarks)) {
+    const keep = preferredCopy(group);
+    for (const b of group) {
+      if (b.id !== keep.id) dropped.add(b.id);
+    }
+  }
+
+  return bookmarks.filter((b) => !dropped.has(b.id));
+}
@@ -4,16 +4,22 @@ import { fileURLToPath } from "node:url";
 import Handlebars from "handlebars";
 import nodemailer from "nodemailer";
 
-import { config, getEmailRecipients } from "./config.js";
-import type { SummarizedDigest } from "./types.js";
+import { getActionLink } from "./actions.js";
+import { config, getEmailRecipients, isActionsEnabled } from "./config.js";
+import { logger } from "./logger.js";
+import { metrics, profileLabel } from "./metrics.js";
+import type { BookmarkAction, LibraryStats, NamedCount, SummarizedDigest } from "./types.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = join(__dirname, "..", "templates");
 
+const SPARKLINE_CHARS = "▁▂▃▄▅▆▇█";
+const TREND_CHART_HEIGHT = 40; // px, tallest bar in the HTML backlog chart
+
 /**
  * Format date as "January 2, 2026"
  */
-function formatDate(date: Date): string {
+export function formatDate(date: Date): string {
   return date.toLocaleDateString("en-US", {
     year: "numeric",
     month: "long",
@@ -21,12 +27,14 @@ function formatDate(date: Date): string {
   });
 }
 
+export const TEMPLATE_PATH = join(TEMPLATES_DIR, "digest.html");
+
 /**
  * Load and compile Handlebars template
+ * Read from disk on every render so preview mode picks up template edits
  */
 function loadTemplate(): HandlebarsTemplateDelegate {
-  const templatePath = join(TEMPLATES_DIR, "digest.html");
-  const templateSource = readFileSync(templatePath, "utf-8");
+  const templateSource = readFileSync(TEMPLATE_PATH, "utf-8");
 
   // Register helper to generate Karakeep deep link URLs
   const baseUrl = config.karakeepUrl;
@@ -34,17 +42,149 @@ function loadTemplate(): HandlebarsTemplateDelegate {
     return `${baseUrl}/reader/${bookmarkId}`;
   });
 
+  // Register helper to generate signed one-click action URLs
+  Handlebars.registerHelper("actionLink", (bookmarkId: string, action: BookmarkAction) => {
+    return getActionLink(bookmarkId, action);
+  });
+
   return Handlebars.compile(templateSource);
 }
 
 /**
  * Generate Karakeep deep link URL for a bookmark
  */
-function getKarakeepLink(bookmarkId: string): string {
+export function getKarakeepLink(bookmarkId: string): string {
   const baseUrl = config.karakeepUrl;
   return `${baseUrl}/reader/${bookmarkId}`;
 }
 
+/**
+ * Plain text one-click action links for a bookmark (empty if actions are disabled)
+ * Bookmarks resurfaced by spaced repetition also get review feedback links
+ */
+function actionLines(bookmarkId: string, indent: string, review = false): string[] {
+  if (!isActionsEnabled()) {
+    return [];
+  }
+
+  const lines = [
+    `${indent}Archive: ${getActionLink(bookmarkId, "archive")}`,
+    `${indent}Favourite: ${getActionLink(bookmarkId, "favourite")}`,
+    `${indent}Snooze 30 days: ${getActionLink(bookmarkId, "snooze")}`,
+  ];
+
+  if (review) {
+    lines.push(
+      `${indent}I remember this: ${getActionLink(bookmarkId, "remembered")}`,
+      `${indent}Show me again soon: ${getActionLink(bookmarkId, "forgotten")}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Format minutes as "45 min" or "12h 30m"
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const rest = minutes % 60;
+  return rest > 0 ? `${Math.floor(minutes / 60)}h ${rest}m` : `${minutes / 60}h`;
+}
+
+function formatChange(change: number): string {
+  return change > 0 ? `+${change}` : change < 0 ? `${change}` : "no change";
+}
+
+function formatCounts(counts: NamedCount[]): string {
+  return counts.map((c) => `${c.name} (${c.count})`).join(", ");
+}
+
+/**
+ * Unicode sparkline of values, e.g. "▁▃▅█"
+ */
+function sparkline(values: number[]): string {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return values
+    .map((v) => SPARKLINE_CHARS[range === 0 ? 0 : Math.round(((v - min) / range) * 7)])
+    .join("");
+}
+
+/**
+ * Template data for the "Your Library" section: formatted figures and backlog chart bars
+ * The chart is a table of fixed-height cells, which email clients render reliably
+ */
+function libraryView(library: LibraryStats) {
+  const trend = library.backlogTrend;
+  const max = Math.max(...trend.map((s) => s.unread), 1);
+
+  return {
+    ...library,
+    backlogReadTime: formatMinutes(library.backlogReadMinutes),
+    hasArchivedSinceLast: library.archivedSinceLast !== undefined,
+    backlogChange: trend.length > 1 ? formatChange(trend.at(-1)!.unread - trend[0].unread) : null,
+    trendWeeks: config.libraryTrendWeeks,
+    topDomainsText: formatCounts(library.topDomains),
+    topTagsText: formatCounts(library.topTags),
+    bars: trend.map((s) => {
+      const height = Math.max(2, Math.round((s.unread / max) * TREND_CHART_HEIGHT));
+      return {
+        unread: s.unread,
+        date: new Date(s.takenAt).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+        height,
+        spacer: TREND_CHART_HEIGHT - height,
+      };
+    }),
+  };
+}
+
+/**
+ * Plain text lines for the "Your Library" section
+ */
+export function libraryLines(library: LibraryStats): string[] {
+  const view = libraryView(library);
+  const lines = ["YOUR LIBRARY", "-".repeat(20)];
+
+  lines.push(`${library.unread} unread, ${library.archived} archived`);
+  lines.push(
+    `Since the last digest: ${library.savedSinceLast} saved` +
+      (library.archivedSinceLast !== undefined ? `, ${library.archivedSinceLast} archived` : "")
+  );
+  if (view.backlogChange) {
+    lines.push(
+      `Backlog over ${view.trendWeeks} weeks: ${sparkline(library.backlogTrend.map((s) => s.unread))} (${view.backlogChange})`
+    );
+  }
+  lines.push(`Backlog reading time: about ${view.backlogReadTime}`);
+  if (library.topDomains.length > 0) {
+    lines.push(`Top domains: ${view.topDomainsText}`);
+  }
+  if (library.topTags.length > 0) {
+    lines.push(`Top tags: ${view.topTagsText}`);
+  }
+  if (library.oldestUnread) {
+    lines.push(
+      `Oldest unread: ${library.oldestUnread.title} (${library.oldestUnread.daysAgo} days)`,
+      `  ${getKarakeepLink(library.oldestUnread.id)}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Note listing the sections left out of a degraded digest, if any
+ */
+export function unavailableNote(digest: SummarizedDigest): string | undefined {
+  const titles = digest.unavailableSections ?? [];
+  return titles.length > 0
+    ? `Some sections are unavailable this time: ${titles.join(", ")}`
+    : undefined;
+}
+
 /**
  * Generate plain text version of the digest
  */
@@ -57,102 +197,55 @@ function generatePlainText(digest: SummarizedDigest): string {
   lines.push("=".repeat(50));
   lines.push("");
 
-  if (digest.recentlySaved.length > 0) {
-    lines.push("HOT OFF THE PRESS");
-    lines.push("Your latest finds from the past month");
-    lines.push("-".repeat(20));
-    for (const item of digest.recentlySaved) {
-      lines.push(`* ${item.title}`);
-      const readTimePart = item.readTime ? `${item.readTime} min read | ` : "";
-      lines.push(`  ${readTimePart}Saved ${item.daysAgo} days ago | ${item.source}`);
-      lines.push(`  ${getKarakeepLink(item.id)}`);
-      lines.push(`  ${item.aiSummary}`);
-      lines.push("");
+  for (const section of digest.sections) {
+    lines.push(section.title.toUpperCase());
+    if (section.subtitle) {
+      lines.push(section.subtitle);
     }
-    lines.push("");
-  }
-
-  if (digest.buriedTreasure.length > 0) {
-    lines.push("BURIED TREASURE");
-    lines.push("Saved 30+ days ago, still unread");
     lines.push("-".repeat(20));
-    for (const item of digest.buriedTreasure) {
-      lines.push(`* ${item.title}`);
-      const readTimePart = item.readTime ? `${item.readTime} min read | ` : "";
-      lines.push(`  ${readTimePart}Saved ${item.daysAgo} days ago | ${item.source}`);
-      lines.push(`  ${getKarakeepLink(item.id)}`);
-      lines.push(`  ${item.aiSummary}`);
+
+    if (section.roundup) {
+      const { synthesis } = section.roundup;
+      lines.push(synthesis.overview);
+      lines.push("");
+      lines.push("Key insights:");
+      for (const insight of synthesis.keyInsights) {
+        lines.push(`  - ${insight}`);
+      }
       lines.push("");
+      lines.push(`Standout: ${synthesis.standout}`);
+      lines.push("");
+      lines.push("Articles:");
+      for (const item of section.bookmarks) {
+        lines.push(`  * ${item.title}`);
+        const readTimePart = item.readTime ? `${item.readTime} min | ` : "";
+        lines.push(`    ${readTimePart}${item.daysAgo}d ago | ${item.source}`);
+        lines.push(`    ${getKarakeepLink(item.id)}`);
+        lines.push(...actionLines(item.id, "    ", section.review));
+      }
+      lines.push("");
+      continue;
     }
-    lines.push("");
-  }
 
-  if (digest.thisMonthLastYear.length > 0) {
-    lines.push("THROWBACK: ONE YEAR AGO");
-    lines.push("What you were reading this time last year");
-    lines.push("-".repeat(20));
-    for (const item of digest.thisMonthLastYear) {
+    for (const item of section.bookmarks) {
       lines.push(`* ${item.title}`);
       const readTimePart = item.readTime ? `${item.readTime} min read | ` : "";
       lines.push(`  ${readTimePart}Saved ${item.daysAgo} days ago | ${item.source}`);
       lines.push(`  ${getKarakeepLink(item.id)}`);
       lines.push(`  ${item.aiSummary}`);
+      lines.push(...actionLines(item.id, "  ", section.review));
       lines.push("");
     }
     lines.push("");
   }
 
-  if (digest.tagRoundup) {
-    lines.push(`${digest.tagRoundup.tag.toUpperCase()} ROUNDUP`);
-    lines.push("-".repeat(20));
-    lines.push(digest.tagRoundup.synthesis.overview);
-    lines.push("");
-    lines.push("Key insights:");
-    for (const insight of digest.tagRoundup.synthesis.keyInsights) {
-      lines.push(`  - ${insight}`);
-    }
-    lines.push("");
-    lines.push(`Standout: ${digest.tagRoundup.synthesis.standout}`);
-    lines.push("");
-    lines.push("Articles:");
-    for (const item of digest.tagRoundup.bookmarks) {
-      lines.push(`  * ${item.title}`);
-      const readTimePart = item.readTime ? `${item.readTime} min | ` : "";
-      lines.push(`    ${readTimePart}${item.daysAgo}d ago | ${item.source}`);
-      lines.push(`    ${getKarakeepLink(item.id)}`);
-    }
-    lines.push("");
-  }
-
-  if (digest.randomPick) {
-    lines.push("RANDOM PICK");
-    lines.push("-".repeat(20));
-    lines.push(`* ${digest.randomPick.title}`);
-    const readTimePart = digest.randomPick.readTime
-      ? `${digest.randomPick.readTime} min read | `
-      : "";
-    lines.push(
-      `  ${readTimePart}Saved ${digest.randomPick.daysAgo} days ago | ${digest.randomPick.source}`
-    );
-    lines.push(`  ${getKarakeepLink(digest.randomPick.id)}`);
-    lines.push(`  ${digest.randomPick.aiSummary}`);
-    lines.push("");
+  if (digest.library) {
+    lines.push(...libraryLines(digest.library), "", "");
   }
 
-  if (digest.fromTheArchives) {
-    lines.push("FROM THE ARCHIVES");
-    lines.push("A forgotten gem from your archived collection");
-    lines.push("-".repeat(20));
-    lines.push(`* ${digest.fromTheArchives.title}`);
-    const readTimePart = digest.fromTheArchives.readTime
-      ? `${digest.fromTheArchives.readTime} min read | `
-      : "";
-    lines.push(
-      `  ${readTimePart}Saved ${digest.fromTheArchives.daysAgo} days ago | ${digest.fromTheArchives.source}`
-    );
-    lines.push(`  ${getKarakeepLink(digest.fromTheArchives.id)}`);
-    lines.push(`  ${digest.fromTheArchives.aiSummary}`);
-    lines.push("");
+  const note = unavailableNote(digest);
+  if (note) {
+    lines.push(note, "");
   }
 
   lines.push("=".repeat(50));
@@ -179,6 +272,9 @@ export function renderDigest(digest: SummarizedDigest): {
     totalUnread: digest.stats.totalUnread,
     formattedDate: formatDate(digest.stats.generatedAt),
     karakeepUrl: config.karakeepUrl,
+    actionsEnabled: isActionsEnabled(),
+    library: digest.library && libraryView(digest.library),
+    unavailableNote: unavailableNote(digest),
   };
 
   const html = template(context);
@@ -215,7 +311,10 @@ export async function sendDigest(html: string, plainText: string): Promise<strin
   const transport = createTransport();
   const recipients = getEmailRecipients();
 
-  console.log(`Sending digest to ${recipients.join(", ")}...`);
+  logger.info(`Sending digest to ${recipients.join(", ")}...`, {
+    smtpHost: config.smtpHost,
+    smtpPort: config.smtpPort,
+  });
 
   const info = await transport.sendMail({
     from: config.emailFrom,
@@ -225,10 +324,27 @@ export async function sendDigest(html: string, plainText: string): Promise<strin
     html,
   });
 
-  console.log(`Email sent: ${info.messageId}`);
+  metrics.emailsSent.inc({ profile: profileLabel() });
+  logger.info(`Email sent: ${info.messageId}`, {
+    messageId: info.messageId,
+    recipients: recipients.length,
+  });
   return info.messageId;
 }
 
+/**
+ * Send a plain text alert to ALERT_EMAIL
+ */
+export async function sendAlertEmail(subject: string, text: string): Promise<void> {
+  const info = await createTransport().sendMail({
+    from: config.emailFrom,
+    to: config.alertEmail,
+    subject,
+    text,
+  });
+  logger.info(`Alert email sent: ${info.messageId}`, { messageId: info.messageId });
+}
+
 /**
  * Verify SMTP connection
  */
@@ -238,7 +354,11 @@ export async function verifySmtpConnection(): Promise<boolean> {
     await transport.verify();
     return true;
   } catch (error) {
-    console.error("SMTP verification failed:", (error as Error).message);
+    logger.error("SMTP verification failed", {
+      smtpHost: config.smtpHost,
+      smtpPort: config.smtpPort,
+      error,
+    });
     return false;
   }
 }
@@ -0,0 +1,210 @@
+import { contentVersion } from "./cache.js";
+import { config, type EmbeddingProviderName, getEmbeddingProvider } from "./config.js";
+import { getReadableContent } from "./content.js";
+import { logger } from "./logger.js";
+import { LLMHttpError, llmTimeoutSignal } from "./providers.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { Bookmark, EmbeddingProvider } from "./types.js";
+
+const CACHE_FILE = "embedding-cache.json";
+const CACHE_MAX_UNUSED_DAYS = 180; // Drop bookmarks that haven't been embedded for ~6 months
+
+// The opening of an article says most about its topic, and keeps requests small
+const EMBEDDING_TEXT_MAX_LENGTH = 4000;
+const BATCH_SIZE = 32;
+
+/**
+ * Cached embedding of one bookmark, valid while its model and content are unchanged
+ */
+interface EmbeddingCacheEntry {
+  model: string;
+  contentVersion: string;
+  vector: number[];
+  lastUsedAt: string;
+}
+
+interface EmbeddingCacheFile {
+  entries: Record<string, EmbeddingCacheEntry>;
+}
+
+/**
+ * Ollama embeddings API (one text per request)
+ */
+class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+
+  constructor() {
+    this.baseUrl = config.ollamaUrl!;
+    this.model = config.ollamaEmbeddingModel;
+    this.name = `ollama/${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (const text of texts) {
+      const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, prompt: text }),
+        signal: llmTimeoutSignal(),
+      });
+
+      if (!response.ok) {
+        throw new LLMHttpError(`Ollama embeddings error: ${response.status}`, response.status);
+      }
+
+      const data = (await response.json()) as { embedding?: number[] };
+      if (!Array.isArray(data.embedding)) {
+        throw new Error("Unexpected response from Ollama embeddings API");
+      }
+      vectors.push(data.embedding);
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * OpenAI-compatible embeddings API (batched)
+ */
+class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+
+  constructor() {
+    this.baseUrl = config.openaiBaseUrl.replace(/\/$/, "");
+    this.model = config.openaiEmbeddingModel;
+    this.name = `openai/${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.openaiApiKey) {
+      headers.Authorization = `Bearer ${config.openaiApiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: llmTimeoutSignal(),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new LLMHttpError(
+        `OpenAI-compatible embeddings error ${response.status}: ${body.slice(0, 200)}`,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as {
+      data?: { embedding?: number[]; index?: number }[];
+    };
+    const items = [...(data.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (items.length !== texts.length || items.some((item) => !Array.isArray(item.embedding))) {
+      throw new Error("Unexpected response from OpenAI-compatible embeddings API");
+    }
+
+    return items.map((item) => item.embedding!);
+  }
+}
+
+/**
+ * Create the configured embedding provider
+ */
+function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case "ollama":
+      return new OllamaEmbeddingProvider();
+    case "openai":
+      return new OpenAICompatibleEmbeddingProvider();
+  }
+}
+
+/**
+ * Text that represents a bookmark's topic: title, summary and the start of its content
+ */
+function embeddingText(bookmark: Bookmark): string {
+  return [bookmark.title, bookmark.summary, getReadableContent(bookmark)]
+    .filter(Boolean)
+    .join("\n\n")
+    .slice(0, EMBEDDING_TEXT_MAX_LENGTH);
+}
+
+function loadEntries(): Record<string, EmbeddingCacheEntry> {
+  const file = readJsonFile<EmbeddingCacheFile>(dataPath(CACHE_FILE), { entries: {} });
+  return file.entries && typeof file.entries === "object" ? file.entries : {};
+}
+
+/**
+ * Persist the cache, dropping bookmarks that haven't been seen in a long time
+ */
+function saveEntries(entries: Record<string, EmbeddingCacheEntry>): void {
+  const cutoff = Date.now() - CACHE_MAX_UNUSED_DAYS * 24 * 60 * 60 * 1000;
+  for (const [id, entry] of Object.entries(entries)) {
+    if (new Date(entry.lastUsedAt).getTime() < cutoff) {
+      delete entries[id];
+    }
+  }
+
+  writeJsonFile(dataPath(CACHE_FILE), { entries } satisfies EmbeddingCacheFile);
+}
+
+/**
+ * Get embeddings for bookmarks, by ID
+ * Embeddings are cached per bookmark, so only new or changed bookmarks are sent to the provider
+ */
+export async function embedBookmarks(bookmarks: Bookmark[]): Promise<Map<string, number[]>> {
+  const providerName = getEmbeddingProvider();
+  if (!providerName) {
+    throw new Error("No embedding provider: set EMBEDDING_PROVIDER to ollama or openai");
+  }
+
+  const provider = createEmbeddingProvider(providerName);
+  const entries = loadEntries();
+  const now = new Date().toISOString();
+  const embeddings = new Map<string, number[]>();
+  const missing: Bookmark[] = [];
+
+  for (const bookmark of bookmarks) {
+    const entry = entries[bookmark.id];
+    if (entry?.model === provider.name && entry.contentVersion === contentVersion(bookmark)) {
+      entry.lastUsedAt = now;
+      embeddings.set(bookmark.id, entry.vector);
+    } else {
+      missing.push(bookmark);
+    }
+  }
+
+  try {
+    for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+      const batch = missing.slice(start, start + BATCH_SIZE);
+      const vectors = await provider.embed(batch.map(embeddingText));
+
+      for (const [index, bookmark] of batch.entries()) {
+        // Six decimals is plenty for similarity and keeps the cache file small
+        const vector = vectors[index].map((v) => Math.round(v * 1e6) / 1e6);
+        entries[bookmark.id] = {
+          model: provider.name,
+          contentVersion: contentVersion(bookmark),
+          vector,
+          lastUsedAt: now,
+        };
+        embeddings.set(bookmark.id, vector);
+      }
+    }
+  } finally {
+    // Keep whatever was embedded before a failure
+    saveEntries(entries);
+  }
+
+  logger.info(
+    `Embeddings: ${bookmarks.length - missing.length} cached, ${missing.length} new (${provider.name})`
+  );
+  return embeddings;
+}
@@ -0,0 +1,221 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import { dirname } from "node:path";
+import { collectSectionBookmarks } from "./categorizer.js";
+import {
+  config,
+  getActiveProfileName,
+  getProfiles,
+  isMultiProfile,
+  type Profile,
+  runWithProfile,
+} from "./config.js";
+import { formatDate, getKarakeepLink } from "./email.js";
+import { logger } from "./logger.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { SummarizedDigest } from "./types.js";
+
+const FEED_ENTRIES_FILE = "feed-entries.json";
+
+interface FeedEntry {
+  id: string;
+  title: string;
+  updated: string;
+  link: string;
+  html: string;
+}
+
+/**
+ * Entries produced by one digest (the digest itself plus optional per-item entries)
+ */
+interface FeedDigestGroup {
+  digestId: string;
+  entries: FeedEntry[];
+}
+
+interface FeedEntriesFile {
+  digests: FeedDigestGroup[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Path of the generated Atom feed file
+ */
+export function getFeedPath(): string {
+  return config.feedPath || dataPath("feed.xml");
+}
+
+/**
+ * Reduce a full HTML document to its <body> contents for embedding in a feed entry
+ */
+function extractBody(html: string): string {
+  const match = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  return match ? match[1].trim() : html;
+}
+
+/**
+ * Prefix of the feed and entry IDs, naming the profile in multi-profile mode so each profile's
+ * feed and entries stay distinct in feed readers
+ */
+function idPrefix(): string {
+  const profile = getActiveProfileName();
+  return profile ? `urn:karakeep-digest:${encodeURIComponent(profile)}` : "urn:karakeep-digest";
+}
+
+/**
+ * Build the feed entries for one digest
+ * IDs derive from the profile, digest timestamp and bookmark ID, so they are stable across rewrites
+ */
+function buildDigestGroup(digest: SummarizedDigest, html: string): FeedDigestGroup {
+  const updated = digest.stats.generatedAt.toISOString();
+  const digestId = `${idPrefix()}:digest:${updated}`;
+
+  const entries: FeedEntry[] = [
+    {
+      id: digestId,
+      title: `Your Weekly Karakeep Digest - ${formatDate(digest.stats.generatedAt)}`,
+      updated,
+      link: config.karakeepUrl,
+      html: extractBody(html),
+    },
+  ];
+
+  if (config.feedItems) {
+    for (const item of collectSectionBookmarks(digest.sections)) {
+      entries.push({
+        id: `${digestId}:bookmark:${item.id}`,
+        title: item.title || "Untitled",
+        updated,
+        link: getKarakeepLink(item.id),
+        html: `<p>${escapeXml(item.aiSummary)}</p><p><a href="${escapeXml(item.url)}">${escapeXml(item.source || item.url)}</a></p>`,
+      });
+    }
+  }
+
+  return { digestId, entries };
+}
+
+/**
+ * Render stored entries as an Atom feed (newest first)
+ */
+function renderFeed(groups: FeedDigestGroup[]): string {
+  const entries = groups
+    .slice()
+    .reverse()
+    .flatMap((g) => g.entries);
+  const updated = entries[0]?.updated ?? new Date().toISOString();
+  const selfLink = config.feedUrl
+    ? `\n  <link rel="self" href="${escapeXml(config.feedUrl)}"/>`
+    : "";
+
+  const entryXml = entries
+    .map(
+      (entry) => `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <updated>${entry.updated}</updated>
+    <link href="${escapeXml(entry.link)}"/>
+    <content type="html">${escapeXml(entry.html)}</content>
+  </entry>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${idPrefix()}:feed</id>
+  <title>Karakeep Digest</title>
+  <updated>${updated}</updated>
+  <author><name>Karakeep Digest</name></author>
+  <link href="${escapeXml(config.karakeepUrl)}"/>${selfLink}
+${entryXml}
+</feed>
+`;
+}
+
+/**
+ * Append a digest to the Atom feed, keeping the last FEED_MAX_DIGESTS digests
+ * Re-appending the same digest replaces its entries instead of duplicating them
+ */
+export function appendToFeed(digest: SummarizedDigest, html: string): string {
+  const file = readJsonFile<FeedEntriesFile>(dataPath(FEED_ENTRIES_FILE), { digests: [] });
+  const group = buildDigestGroup(digest, html);
+
+  const digests = [
+    ...(file.digests ?? []).filter((g) => g.digestId !== group.digestId),
+    group,
+  ].slice(-config.feedMaxDigests);
+
+  writeJsonFile(dataPath(FEED_ENTRIES_FILE), { digests } satisfies FeedEntriesFile);
+  mkdirSync(dirname(getFeedPath()), { recursive: true });
+  writeFileSync(getFeedPath(), renderFeed(digests));
+
+  return group.digestId;
+}
+
+/**
+ * Read the current feed file (or an empty feed if no digest has been generated yet)
+ */
+function readFeed(): string {
+  try {
+    return readFileSync(getFeedPath(), "utf-8");
+  } catch {
+    return renderFeed([]);
+  }
+}
+
+/**
+ * Find the profile a feed URL belongs to: /feed.xml is the first profile,
+ * /<profile>/feed.xml a specific one
+ */
+function resolveFeedProfile(url: string): Profile | undefined {
+  const profiles = getProfiles();
+
+  if (url === "/feed.xml" || url === "/") {
+    return profiles[0];
+  }
+
+  const match = url.match(/^\/([^/]+)\/feed\.xml$/);
+  return match && isMultiProfile() ? profiles.find((p) => p.name === match[1]) : undefined;
+}
+
+/**
+ * Serve the feed file over HTTP (daemon mode)
+ * Returns the server, or undefined if FEED_PORT is 0
+ */
+export function startFeedServer(): Server | undefined {
+  if (config.feedPort <= 0) {
+    return undefined;
+  }
+
+  const server = createServer((req, res) => {
+    const profile = resolveFeedProfile(req.url || "/");
+    if (!profile) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/atom+xml; charset=utf-8" });
+    res.end(runWithProfile(profile, readFeed));
+  });
+
+  // E.g. the port is already in use: the feed file is still written, only not served
+  server.on("error", (error) => {
+    logger.error(`Feed server failed on port ${config.feedPort}`, { error });
+  });
+
+  server.listen(config.feedPort, () => {
+    const paths = isMultiProfile()
+      ? getProfiles().map((p) => `/${p.name}/feed.xml`)
+      : ["/feed.xml"];
+    logger.info(`Feed server listening on port ${config.feedPort} (${paths.join(", ")})`);
+  });
+  return server;
+}
@@ -0,0 +1,72 @@
+import { collectSectionBookmarks } from "./categorizer.js";
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { DigestHistoryEntry, DigestSections } from "./types.js";
+
+const HISTORY_FILE = "digest-history.json";
+const MAX_HISTORY_ENTRIES = 104; // Two years of weekly digests
+
+interface DigestHistoryFile {
+  digests: DigestHistoryEntry[];
+}
+
+/**
+ * Load all recorded digests, oldest first
+ */
+export function loadHistory(): DigestHistoryEntry[] {
+  const file = readJsonFile<DigestHistoryFile>(dataPath(HISTORY_FILE), { digests: [] });
+  return Array.isArray(file.digests) ? file.digests : [];
+}
+
+/**
+ * Get bookmarks featured in the last HISTORY_DIGESTS digests or HISTORY_DAYS days,
+ * mapped to the most recent time each was sent
+ */
+export function getRecentlyFeatured(
+  history: DigestHistoryEntry[],
+  now: Date = new Date()
+): Map<string, Date> {
+  const featured = new Map<string, Date>();
+  const dayCutoff = now.getTime() - config.historyDays * 24 * 60 * 60 * 1000;
+  const firstRecentIndex = history.length - config.historyDigests;
+
+  history.forEach((entry, index) => {
+    const sentAt = new Date(entry.sentAt);
+    const withinDigests = config.historyDigests > 0 && index >= firstRecentIndex;
+    const withinDays = config.historyDays > 0 && sentAt.getTime() >= dayCutoff;
+
+    if (!withinDigests && !withinDays) {
+      return;
+    }
+
+    for (const id of entry.bookmarkIds) {
+      const previous = featured.get(id);
+      if (!previous || previous < sentAt) {
+        featured.set(id, sentAt);
+      }
+    }
+  });
+
+  return featured;
+}
+
+/**
+ * Collect the IDs of every bookmark included in the digest sections
+ */
+export function collectBookmarkIds(digest: DigestSections): string[] {
+  return collectSectionBookmarks(digest.sections).map((b) => b.id);
+}
+
+/**
+ * Record a sent digest in the history store, returning the stored entry
+ */
+export function recordDigest(bookmarkIds: string[], sentAt: Date = new Date()): DigestHistoryEntry {
+  const digests = loadHistory();
+  const entry = { sentAt: sentAt.toISOString(), bookmarkIds };
+  digests.push(entry);
+
+  writeJsonFile(dataPath(HISTORY_FILE), {
+    digests: digests.slice(-MAX_HISTORY_ENTRIES),
+  } satisfies DigestHistoryFile);
+  return entry;
+}
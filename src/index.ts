@@ -1,144 +1,343 @@
+import { parseArgs } from "node:util";
 import cron from "node-cron";
-import { categorize, filterSufficientContent } from "./categorizer.js";
-import { config } from "./config.js";
-import { renderDigest, sendDigest, verifySmtpConnection } from "./email.js";
-import { fetchArchivedBookmarks, fetchBookmarks, fetchThisMonthLastYear } from "./karakeep.js";
-import { summarizeSections } from "./summarizer.js";
+import { startActionServer } from "./actions.js";
+import { checkSetup, printLibraryStats, summarizeOne } from "./commands.js";
+import {
+  ConfigError,
+  config,
+  getProfiles,
+  isMultiProfile,
+  type Profile,
+  runWithProfile,
+} from "./config.js";
+import { buildDigest, generateAndSendDigest } from "./digest.js";
+import { verifySmtpConnection } from "./email.js";
+import { startFeedServer } from "./feed.js";
+import { logger, runWithRunId } from "./logger.js";
+import { loadDigestFixture, servePreview, writePreview } from "./preview.js";
+import { loadSectionDefinitions } from "./sections.js";
+import { registerSchedule, startStatusServer, trackRun } from "./status.js";
+import type { SummarizedDigest } from "./types.js";
+
+const COMMANDS = ["send", "preview", "check", "stats", "summarize", "daemon"] as const;
+type Command = (typeof COMMANDS)[number];
+
+// Without a command, RUN_MODE picks one (as before subcommands existed)
+const RUN_MODE_COMMANDS: Record<string, Command> = {
+  cli: "send",
+  preview: "preview",
+  daemon: "daemon",
+};
+
+// For scripts and container health checks
+const EXIT_CODES = {
+  ok: 0,
+  failed: 1, // The run, a check or the command failed
+  usage: 2, // Unknown command or flag
+  config: 3, // Invalid configuration, sections or profiles
+} as const;
+
+// Flags that override an environment variable for this run
+const ENV_FLAGS = {
+  profile: "PROFILE",
+  "profiles-config": "PROFILES_CONFIG",
+  sections: "SECTIONS_CONFIG",
+  "data-dir": "DATA_DIR",
+  llm: "LLM_PROVIDER",
+  channels: "DELIVERY_CHANNELS",
+  to: "EMAIL_TO",
+  seed: "DIGEST_SEED",
+  out: "PREVIEW_DIR",
+  port: "PREVIEW_PORT",
+  fixture: "PREVIEW_FIXTURE",
+  schedule: "CRON_SCHEDULE",
+} as const;
+
+const CLI_OPTIONS = {
+  ...(Object.fromEntries(
+    Object.keys(ENV_FLAGS).map((flag) => [flag, { type: "string" as const }])
+  ) as Record<keyof typeof ENV_FLAGS, { type: "string" }>),
+  json: { type: "boolean" },
+  content: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+const USAGE = `Usage: karakeep-digest [command] [options]
+
+Commands:
+  send                 Generate and deliver the digest once (default; RUN_MODE picks otherwise)
+  preview              Render the digest to --out (PREVIEW_DIR) without sending
+  check                Check config, sections, Karakeep auth, LLM providers and SMTP
+  stats                Print library counts (--json for JSON)
+  summarize <id>       Summarize one bookmark, bypassing the cache (--content prints the text)
+  daemon               Run on the cron schedule
+
+Options (override the matching environment variable):
+  --profile <name>            PROFILE
+  --profiles-config <file>    PROFILES_CONFIG
+  --sections <file>           SECTIONS_CONFIG
+  --data-dir <dir>            DATA_DIR
+  --llm <providers>           LLM_PROVIDER
+  --channels <channels>       DELIVERY_CHANNELS
+  --to <addresses>            EMAIL_TO
+  --seed <seed>               DIGEST_SEED
+  --out <dir>                 PREVIEW_DIR
+  --port <port>               PREVIEW_PORT
+  --fixture <file>            PREVIEW_FIXTURE
+  --schedule <cron>           CRON_SCHEDULE
+  -h, --help                  Show this help
+
+Exit codes: 0 success, 1 failure, 2 invalid usage, 3 invalid configuration`;
 
 /**
- * Main digest generation and sending flow
+ * Generate and send the digest for one profile, logging (not throwing) failures
+ * so one profile can't stop the others
+ * Returns whether the digest succeeded
  */
-async function generateAndSendDigest(): Promise<void> {
-  console.log("Starting Karakeep Digest...");
-  const startTime = Date.now();
-
-  try {
-    // 1. Fetch all unread bookmarks
-    console.log("Fetching unread bookmarks from Karakeep...");
-    const bookmarks = await fetchBookmarks({ archived: false });
-    console.log(`Fetched ${bookmarks.length} unread bookmarks`);
-    const validBookmarks = filterSufficientContent(bookmarks);
-    console.log(`  (${validBookmarks.length} with sufficient content for summarization)`);
-
-    if (bookmarks.length === 0) {
-      console.log("No unread bookmarks found. Skipping digest.");
-      return;
-    }
+async function runProfileDigest(profile: Profile): Promise<boolean> {
+  return trackRun(profile.name, () => runWithProfile(profile, generateAndSendDigest));
+}
 
-    // 2. Fetch historical bookmarks for "This Month Last Year"
-    console.log("Fetching historical bookmarks...");
-    const lastYearBookmarks = await fetchThisMonthLastYear();
-    console.log(`Found ${lastYearBookmarks.length} bookmarks from this month last year`);
-    const validLastYear = filterSufficientContent(lastYearBookmarks);
-    console.log(`  (${validLastYear.length} with sufficient content)`);
-
-    // 3. Fetch archived bookmarks for "From the Archives"
-    console.log("Fetching archived bookmarks...");
-    const archivedBookmarks = await fetchArchivedBookmarks();
-    console.log(`Found ${archivedBookmarks.length} archived bookmarks`);
-    const validArchived = filterSufficientContent(archivedBookmarks);
-    console.log(`  (${validArchived.length} with sufficient content)`);
-
-    // 4. Categorize into digest sections
-    console.log("Categorizing bookmarks...");
-    const sections = categorize(bookmarks, lastYearBookmarks, archivedBookmarks);
-
-    console.log("Sections created:");
-    console.log(`  - Recently Saved: ${sections.recentlySaved.length} items`);
-    console.log(`  - Buried Treasure: ${sections.buriedTreasure.length} items`);
-    console.log(`  - This Month Last Year: ${sections.thisMonthLastYear.length} items`);
-    console.log(
-      `  - Tag Roundup: ${sections.tagRoundup ? `${sections.tagRoundup.bookmarks.length} items (${sections.tagRoundup.tag})` : "none"}`
-    );
-    console.log(`  - Random Pick: ${sections.randomPick ? "yes" : "no"}`);
-    console.log(`  - From the Archives: ${sections.fromTheArchives ? "yes" : "no"}`);
+/**
+ * Run in preview mode, previewing the first profile (or PROFILE) when there are several
+ */
+async function runPreview(): Promise<void> {
+  const [profile] = getProfiles();
+  await runWithProfile(profile, () => runWithRunId(renderPreview));
+}
 
-    // 5. Generate AI summaries for each section
-    const summarized = await summarizeSections(sections);
+/**
+ * Render the digest to PREVIEW_DIR (and optionally serve it) without sending
+ * Uses the PREVIEW_FIXTURE digest JSON if set, so no Karakeep or LLM calls are needed
+ */
+async function renderPreview(): Promise<void> {
+  try {
+    let digest: SummarizedDigest;
 
-    // 6. Render email
-    console.log("Rendering email...");
-    const { html, plainText } = renderDigest(summarized);
+    if (config.previewFixture) {
+      logger.info(`Loading digest fixture from ${config.previewFixture}`);
+      digest = loadDigestFixture(config.previewFixture);
+    } else {
+      const built = await buildDigest();
+      if (!built) {
+        process.exit(EXIT_CODES.ok);
+      }
+      digest = built.summarized;
+    }
 
-    // 7. Send email
-    const messageId = await sendDigest(html, plainText);
+    writePreview(digest, config.previewDir);
 
-    const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-    console.log(`Digest completed successfully in ${duration}s`);
-    console.log(`Message ID: ${messageId}`);
+    if (config.previewPort > 0) {
+      servePreview(digest, config.previewPort);
+    } else {
+      process.exit(EXIT_CODES.ok);
+    }
   } catch (error) {
-    console.error("Digest generation failed:", error);
-    throw error;
+    logger.error("Preview failed", { error });
+    process.exit(EXIT_CODES.failed);
   }
 }
 
 /**
- * Run in CLI mode (single execution)
+ * Run in CLI mode (single execution of every profile, one after another)
  */
 async function runCli(): Promise<void> {
-  try {
-    await generateAndSendDigest();
-    process.exit(0);
-  } catch {
-    process.exit(1);
+  let failed = 0;
+
+  for (const profile of getProfiles()) {
+    if (!(await runProfileDigest(profile))) {
+      failed++;
+    }
   }
+
+  if (isMultiProfile() && failed > 0) {
+    logger.error(`${failed} of ${getProfiles().length} profiles failed`);
+  }
+
+  process.exit(failed > 0 ? EXIT_CODES.failed : EXIT_CODES.ok);
 }
 
 /**
- * Run in daemon mode (scheduled execution)
+ * Verify SMTP and schedule the digest for one profile
  */
-function runDaemon(): void {
-  console.log(`Karakeep Digest daemon starting...`);
-  console.log(`Schedule: ${config.cronSchedule}`);
+function scheduleProfile(profile: Profile): void {
+  runWithProfile(profile, () => {
+    logger.info(`Schedule: ${config.cronSchedule}`);
 
-  // Verify SMTP connection on startup
-  verifySmtpConnection().then((ok) => {
-    if (ok) {
-      console.log("SMTP connection verified");
-    } else {
-      console.warn("SMTP verification failed - emails may not send");
+    // Verify SMTP connection on startup
+    if (config.deliveryChannels.includes("email")) {
+      verifySmtpConnection().then((ok) => {
+        if (ok) {
+          logger.info("SMTP connection verified");
+        } else {
+          logger.warn("SMTP verification failed - emails may not send");
+        }
+      });
     }
-  });
 
-  // Validate cron expression
-  if (!cron.validate(config.cronSchedule)) {
-    console.error(`Invalid cron schedule: ${config.cronSchedule}`);
-    process.exit(1);
-  }
+    // Validate cron expression
+    if (!cron.validate(config.cronSchedule)) {
+      logger.error(`Invalid cron schedule: ${config.cronSchedule}`);
+      process.exit(EXIT_CODES.config);
+    }
 
-  // Schedule the digest
-  cron.schedule(config.cronSchedule, () => {
-    console.log(`\n[${new Date().toISOString()}] Scheduled run triggered`);
-    generateAndSendDigest().catch((error) => {
-      console.error("Scheduled digest failed:", error);
+    // Schedule the digest
+    const task = cron.schedule(config.cronSchedule, () => {
+      logger.info("Scheduled run triggered");
+      runProfileDigest(profile);
     });
+    registerSchedule(profile.name, config.cronSchedule, () => task.getNextRun());
   });
+}
+
+/**
+ * Run in daemon mode (scheduled execution)
+ */
+function runDaemon(): void {
+  logger.info("Karakeep Digest daemon starting...");
+
+  // Every profile runs on its own schedule in this process
+  for (const profile of getProfiles()) {
+    scheduleProfile(profile);
+  }
 
-  console.log("Daemon running. Waiting for scheduled time...");
-  console.log("Press Ctrl+C to stop");
+  // Serve one-click action links from the email, the Atom feed and the daemon's status,
+  // if configured
+  startActionServer();
+  startFeedServer();
+  startStatusServer();
+
+  logger.info("Daemon running. Waiting for scheduled time...");
+  logger.info("Press Ctrl+C to stop");
 
   // Keep the process alive
   process.on("SIGINT", () => {
-    console.log("\nShutting down...");
-    process.exit(0);
+    logger.info("Shutting down...");
+    process.exit(EXIT_CODES.ok);
   });
 
   process.on("SIGTERM", () => {
-    console.log("\nShutting down...");
-    process.exit(0);
+    logger.info("Shutting down...");
+    process.exit(EXIT_CODES.ok);
   });
 }
 
+/**
+ * Run `check`, `stats` or `summarize`, exiting with their outcome
+ */
+async function runCommand(run: () => Promise<boolean>): Promise<void> {
+  try {
+    process.exit((await run()) ? EXIT_CODES.ok : EXIT_CODES.failed);
+  } catch (error) {
+    logger.error("Command failed", { error });
+    process.exit(EXIT_CODES.failed);
+  }
+}
+
+/**
+ * Print an error with the usage help and exit
+ */
+function exitWithUsage(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(EXIT_CODES.usage);
+}
+
+/**
+ * Parse the command line, applying flags over the environment
+ * Exits with usage help if the arguments are invalid or --help is given
+ */
+function parseCommandLine(): {
+  command: Command;
+  bookmarkId?: string;
+  json: boolean;
+  content: boolean;
+} {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs();
+  } catch (error) {
+    exitWithUsage((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(EXIT_CODES.ok);
+  }
+
+  const [name, ...args] = positionals;
+  const command = (name ?? RUN_MODE_COMMANDS[process.env.RUN_MODE || "cli"]) as Command;
+  if (!COMMANDS.includes(command)) {
+    exitWithUsage(
+      name ? `Unknown command "${name}"` : `Unknown RUN_MODE "${process.env.RUN_MODE}"`
+    );
+  }
+  if (args.length !== (command === "summarize" ? 1 : 0)) {
+    exitWithUsage(`Wrong number of arguments for "${command}"`);
+  }
+
+  for (const [flag, envVar] of Object.entries(ENV_FLAGS)) {
+    const value = values[flag as keyof typeof ENV_FLAGS];
+    if (value !== undefined) {
+      process.env[envVar] = value;
+    }
+  }
+
+  return {
+    command,
+    bookmarkId: args[0],
+    json: values.json ?? false,
+    content: values.content ?? false,
+  };
+}
+
+function parseCliArgs() {
+  return parseArgs({ options: CLI_OPTIONS, allowPositionals: true });
+}
+
 /**
  * Entry point
  */
 function main(): void {
-  console.log("Karakeep Digest v1.0.0");
-  console.log(`Mode: ${config.runMode}`);
-  console.log("");
+  const { command, bookmarkId, json, content } = parseCommandLine();
+
+  // Fail fast on invalid settings, profiles or sections
+  let profiles: Profile[];
+  try {
+    profiles = getProfiles();
+    for (const profile of profiles) {
+      runWithProfile(profile, loadSectionDefinitions);
+    }
+  } catch (error) {
+    logger.error((error as Error).message);
+    process.exit(error instanceof ConfigError ? EXIT_CODES.config : EXIT_CODES.failed);
+  }
+
+  switch (command) {
+    case "check":
+      runCommand(() => checkSetup(profiles));
+      return;
+    case "stats":
+      runCommand(async () => {
+        await printLibraryStats(profiles, json);
+        return true;
+      });
+      return;
+    case "summarize":
+      runCommand(() => runWithProfile(profiles[0], () => summarizeOne(bookmarkId!, content)));
+      return;
+  }
+
+  logger.info("Karakeep Digest v1.0.0", { command });
+
+  if (isMultiProfile()) {
+    logger.info(`Profiles: ${profiles.map((p) => p.name).join(", ")}`);
+  }
 
-  if (config.runMode === "daemon") {
+  if (command === "daemon") {
     runDaemon();
+  } else if (command === "preview") {
+    runPreview();
   } else {
     runCli();
   }
@@ -1,8 +1,21 @@
-import { config } from "./config.js";
-import type { Bookmark, KarakeepBookmark, KarakeepBookmarksResponse } from "./types.js";
+import { config, getDigestScope } from "./config.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import type {
+  Bookmark,
+  DigestScope,
+  KarakeepBookmark,
+  KarakeepBookmarksResponse,
+  KarakeepList,
+  KarakeepListsResponse,
+  KarakeepTagsResponse,
+  KarakeepUser,
+} from "./types.js";
+import { canonicalizeUrl } from "./urls.js";
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
+const PAGE_SIZE = 100;
 
 /**
  * Extract domain from URL for source display
@@ -22,10 +35,13 @@ function extractDomain(url: string): string {
 function transformBookmark(raw: KarakeepBookmark): Bookmark {
   const url = raw.content?.url || "";
   const title = raw.title || raw.content?.title || raw.content?.url || "Untitled";
+  // The source URL is the original page when Karakeep saved a copy or a redirect
+  const originalUrl = raw.content?.sourceUrl || url;
 
   return {
     id: raw.id,
     url,
+    canonicalUrl: originalUrl ? canonicalizeUrl(originalUrl) : "",
     title,
     content: raw.content,
     summary: raw.summary || raw.content?.description,
@@ -42,9 +58,12 @@ function transformBookmark(raw: KarakeepBookmark): Bookmark {
 
 /**
  * Make API request with retry logic
+ * POSTs are only retried when rate limited: after a server error or timeout the request may
+ * have gone through, and repeating it could e.g. create a list twice
  */
 async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
   const url = `${config.karakeepUrl}${endpoint}`;
+  const retryable = (options.method ?? "GET").toUpperCase() !== "POST";
   const headers = {
     Authorization: `Bearer ${config.karakeepApiKey}`,
     "Content-Type": "application/json",
@@ -55,13 +74,21 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const response = await fetch(url, { ...options, headers });
+      const response = await fetch(url, { ...options, headers }).catch((error) => {
+        metrics.karakeepRequests.inc({ status: "error" });
+        throw error;
+      });
+      metrics.karakeepRequests.inc({ status: String(response.status) });
 
       if (response.status === 429) {
         // Rate limited - check for Retry-After header
         const retryAfter = response.headers.get("Retry-After");
         const delay = retryAfter ? parseInt(retryAfter, 10) * 1000 : 5000;
-        console.warn(`Rate limited, retrying after ${delay}ms`);
+        logger.warn(`Rate limited by Karakeep, retrying after ${delay}ms`, {
+          endpoint,
+          attempt,
+          delayMs: delay,
+        });
         await sleep(delay);
         continue;
       }
@@ -75,15 +102,24 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
         throw new Error(`API error ${response.status}: ${body.slice(0, 200)}`);
       }
 
+      // Mutating endpoints may return no body
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
       return (await response.json()) as T;
     } catch (error) {
       lastError = error as Error;
 
+      if (!retryable) {
+        break;
+      }
+
       if (attempt < MAX_RETRIES) {
         const delay = RETRY_DELAY_MS * 2 ** (attempt - 1);
-        console.warn(
-          `Request failed (attempt ${attempt}/${MAX_RETRIES}), retrying in ${delay}ms:`,
-          (error as Error).message
+        logger.warn(
+          `Karakeep request failed (attempt ${attempt}/${MAX_RETRIES}), retrying in ${delay}ms`,
+          { endpoint, attempt, delayMs: delay, error }
         );
         await sleep(delay);
       }
@@ -100,6 +136,8 @@ function sleep(ms: number): Promise<void> {
 export interface FetchBookmarksOptions {
   archived?: boolean;
   limit?: number;
+  /** Defaults to the configured digest scope */
+  scope?: DigestScope;
 }
 
 /**
@@ -139,36 +177,33 @@ export async function fetchBookmarkContent(bookmark: Bookmark): Promise<string |
 }
 
 /**
- * Fetch all bookmarks from Karakeep with pagination
+ * Fetch every page of a cursor-paginated bookmarks endpoint
+ * Stops early once `limit` raw bookmarks have been collected
  */
-export async function fetchBookmarks(options: FetchBookmarksOptions = {}): Promise<Bookmark[]> {
-  const { archived = false, limit } = options;
-  const bookmarks: Bookmark[] = [];
+async function fetchAllPages(
+  endpoint: string,
+  baseParams: Record<string, string> = {},
+  limit?: number
+): Promise<KarakeepBookmark[]> {
+  const bookmarks: KarakeepBookmark[] = [];
   let cursor: string | null = null;
-  const pageSize = 100;
 
   do {
-    const params = new URLSearchParams();
-    params.set("limit", String(pageSize));
-
-    if (archived !== undefined) {
-      params.set("archived", String(archived));
-    }
+    const params = new URLSearchParams(baseParams);
+    params.set("limit", String(PAGE_SIZE));
 
     if (cursor) {
       params.set("cursor", cursor);
     }
 
     const response = await apiRequest<KarakeepBookmarksResponse>(
-      `/api/v1/bookmarks?${params.toString()}`
+      `${endpoint}?${params.toString()}`
     );
 
-    for (const raw of response.bookmarks) {
-      bookmarks.push(transformBookmark(raw));
+    bookmarks.push(...response.bookmarks);
 
-      if (limit && bookmarks.length >= limit) {
-        return bookmarks.slice(0, limit);
-      }
+    if (limit && bookmarks.length >= limit) {
+      return bookmarks.slice(0, limit);
     }
 
     cursor = response.nextCursor;
@@ -178,17 +213,143 @@ export async function fetchBookmarks(options: FetchBookmarksOptions = {}): Promi
 }
 
 /**
- * Fetch bookmarks created within a date range
- * Used for "This Month Last Year" feature
+ * Resolve tag names (or IDs) to Karakeep tag IDs
  */
-export async function fetchBookmarksFromDateRange(start: Date, end: Date): Promise<Bookmark[]> {
-  // Karakeep API doesn't support date range filtering directly,
-  // so we fetch all and filter client-side
-  const allBookmarks = await fetchBookmarks({ archived: false });
+async function resolveTagIds(tags: string[]): Promise<string[]> {
+  const response = await apiRequest<KarakeepTagsResponse>("/api/v1/tags");
+  const ids: string[] = [];
 
-  return allBookmarks.filter((bookmark) => {
-    return bookmark.createdAt >= start && bookmark.createdAt <= end;
-  });
+  for (const tag of tags) {
+    const match = response.tags.find(
+      (t) => t.id === tag || t.name.toLowerCase() === tag.toLowerCase()
+    );
+
+    if (match) {
+      ids.push(match.id);
+    } else {
+      logger.warn(`Tag "${tag}" not found in Karakeep, ignoring`);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Check whether a scope narrows the library at all
+ */
+function isScoped(scope: DigestScope): boolean {
+  return Boolean(scope.query) || scope.listIds.length > 0 || scope.includeTags.length > 0;
+}
+
+/**
+ * Fetch the raw bookmarks matching a scope's query, lists and included tags (deduplicated)
+ */
+async function fetchScopedBookmarks(scope: DigestScope): Promise<KarakeepBookmark[]> {
+  const byId = new Map<string, KarakeepBookmark>();
+  const add = (bookmarks: KarakeepBookmark[]) => {
+    for (const b of bookmarks) byId.set(b.id, b);
+  };
+
+  if (scope.query) {
+    add(await fetchAllPages("/api/v1/bookmarks/search", { q: scope.query }));
+  }
+
+  for (const listId of scope.listIds) {
+    add(await fetchAllPages(`/api/v1/lists/${encodeURIComponent(listId)}/bookmarks`));
+  }
+
+  if (scope.includeTags.length > 0) {
+    for (const tagId of await resolveTagIds(scope.includeTags)) {
+      add(await fetchAllPages(`/api/v1/tags/${encodeURIComponent(tagId)}/bookmarks`));
+    }
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Check whether a raw bookmark carries one of the (lowercased) excluded tags
+ */
+function hasExcludedTag(bookmark: KarakeepBookmark, excludedTags: Set<string>): boolean {
+  return bookmark.tags.some((t) => excludedTags.has(t.name.toLowerCase()));
+}
+
+/**
+ * Bookmarks in the digest scope, split into unread and archived
+ */
+export interface ScopedLibrary {
+  unread: Bookmark[];
+  archived: Bookmark[];
+}
+
+/**
+ * Fetch the bookmarks matching the scope's query, lists and included tags once, splitting unread
+ * and archived here, so a run needing both (and list sections) doesn't repeat every query
+ * Returns undefined if the scope has none of them, when the bookmarks endpoint filters directly
+ */
+export async function fetchScopedLibrary(
+  scope: DigestScope = getDigestScope()
+): Promise<ScopedLibrary | undefined> {
+  if (!isScoped(scope)) {
+    return undefined;
+  }
+
+  const excludedTags = new Set(scope.excludeTags.map((t) => t.toLowerCase()));
+  const bookmarks = (await fetchScopedBookmarks(scope))
+    .filter((b) => !hasExcludedTag(b, excludedTags))
+    .map(transformBookmark);
+
+  return {
+    unread: bookmarks.filter((b) => !b.archived),
+    archived: bookmarks.filter((b) => b.archived),
+  };
+}
+
+/**
+ * Fetch all bookmarks from Karakeep with pagination, limited to the digest scope
+ */
+export async function fetchBookmarks(options: FetchBookmarksOptions = {}): Promise<Bookmark[]> {
+  const { archived = false, limit, scope = getDigestScope() } = options;
+  const excludedTags = new Set(scope.excludeTags.map((t) => t.toLowerCase()));
+
+  let raw: KarakeepBookmark[];
+
+  if (isScoped(scope)) {
+    // Search, list and tag endpoints don't share a common archived filter, so apply it here
+    raw = (await fetchScopedBookmarks(scope)).filter((b) => b.archived === archived);
+  } else {
+    // Over-fetch when excluding tags so the limit applies after filtering
+    raw = await fetchAllPages(
+      "/api/v1/bookmarks",
+      { archived: String(archived) },
+      excludedTags.size > 0 ? undefined : limit
+    );
+  }
+
+  const bookmarks = raw.filter((b) => !hasExcludedTag(b, excludedTags)).map(transformBookmark);
+
+  return limit ? bookmarks.slice(0, limit) : bookmarks;
+}
+
+/**
+ * Fetch every bookmark (unread and archived) in a list, for list-sourced sections
+ * Like every other section, only bookmarks in the digest scope are kept: pass the run's
+ * `scoped` library when the scope has a query, lists or tags, and the list is intersected with it
+ */
+export async function fetchListBookmarks(
+  listId: string,
+  scoped?: ScopedLibrary,
+  scope: DigestScope = getDigestScope()
+): Promise<Bookmark[]> {
+  const excludedTags = new Set(scope.excludeTags.map((t) => t.toLowerCase()));
+  let raw = await fetchAllPages(`/api/v1/lists/${encodeURIComponent(listId)}/bookmarks`);
+
+  if (scoped) {
+    const inScope = new Set([...scoped.unread, ...scoped.archived].map((b) => b.id));
+    raw = raw.filter((b) => inScope.has(b.id));
+  }
+
+  return raw.filter((b) => !hasExcludedTag(b, excludedTags)).map(transformBookmark);
 }
 
 /**
@@ -206,22 +367,104 @@ export function getLastYearDateRange(): { start: Date; end: Date } {
 }
 
 /**
- * Fetch bookmarks from this month last year
+ * Fetch archived bookmarks for "From the Archives" feature
+ */
+export async function fetchArchivedBookmarks(): Promise<Bookmark[]> {
+  return fetchBookmarks({ archived: true });
+}
+
+/**
+ * Check whether the digest scope leaves any of the library out
+ */
+export function isDigestScoped(): boolean {
+  const scope = getDigestScope();
+  return isScoped(scope) || scope.excludeTags.length > 0;
+}
+
+/**
+ * Fetch every unread and archived bookmark, ignoring the digest scope (for library statistics)
+ */
+export async function fetchWholeLibrary(): Promise<{ unread: Bookmark[]; archived: Bookmark[] }> {
+  const scope: DigestScope = { listIds: [], includeTags: [], excludeTags: [] };
+  const [unread, archived] = await Promise.all([
+    fetchBookmarks({ archived: false, scope }),
+    fetchBookmarks({ archived: true, scope }),
+  ]);
+  return { unread, archived };
+}
+
+/**
+ * Fetch the user the API key belongs to, e.g. to check the URL and key work
+ */
+export async function fetchCurrentUser(): Promise<KarakeepUser> {
+  return apiRequest<KarakeepUser>("/api/v1/users/me");
+}
+
+/**
+ * Fetch a single bookmark by ID
  */
-export async function fetchThisMonthLastYear(): Promise<Bookmark[]> {
-  const { start, end } = getLastYearDateRange();
+export async function fetchBookmark(bookmarkId: string): Promise<Bookmark> {
+  const raw = await apiRequest<KarakeepBookmark>(
+    `/api/v1/bookmarks/${encodeURIComponent(bookmarkId)}`
+  );
+  return transformBookmark(raw);
+}
 
-  // For this, we need all bookmarks including archived
-  const allBookmarks = await fetchBookmarks({});
+/**
+ * Fetch all lists for the current user
+ */
+export async function fetchLists(): Promise<KarakeepList[]> {
+  const response = await apiRequest<KarakeepListsResponse>("/api/v1/lists");
+  return response.lists;
+}
 
-  return allBookmarks.filter((bookmark) => {
-    return bookmark.createdAt >= start && bookmark.createdAt <= end;
+/**
+ * Create a new manual list
+ */
+export async function createList(name: string, icon = "📬"): Promise<KarakeepList> {
+  return apiRequest<KarakeepList>("/api/v1/lists", {
+    method: "POST",
+    body: JSON.stringify({ name, icon }),
   });
 }
 
 /**
- * Fetch archived bookmarks for "From the Archives" feature
+ * Fetch the IDs of every bookmark in a list
  */
-export async function fetchArchivedBookmarks(): Promise<Bookmark[]> {
-  return fetchBookmarks({ archived: true });
+export async function fetchListBookmarkIds(listId: string): Promise<Set<string>> {
+  const bookmarks = await fetchAllPages(`/api/v1/lists/${encodeURIComponent(listId)}/bookmarks`);
+  return new Set(bookmarks.map((b) => b.id));
+}
+
+/**
+ * Add a bookmark to a list
+ */
+export async function addBookmarkToList(listId: string, bookmarkId: string): Promise<void> {
+  await apiRequest<void>(
+    `/api/v1/lists/${encodeURIComponent(listId)}/bookmarks/${encodeURIComponent(bookmarkId)}`,
+    { method: "PUT" }
+  );
+}
+
+/**
+ * Attach tags (by name) to a bookmark, creating them if needed
+ */
+export async function attachTags(bookmarkId: string, tagNames: string[]): Promise<void> {
+  await apiRequest<unknown>(`/api/v1/bookmarks/${encodeURIComponent(bookmarkId)}/tags`, {
+    method: "POST",
+    body: JSON.stringify({ tags: tagNames.map((tagName) => ({ tagName })) }),
+  });
+}
+
+/**
+ * Update editable bookmark fields
+ */
+export async function updateBookmark(
+  bookmarkId: string,
+  fields: { note?: string; summary?: string; archived?: boolean; favourited?: boolean }
+): Promise<void> {
+  await apiRequest<unknown>(`/api/v1/bookmarks/${encodeURIComponent(bookmarkId)}`, {
+    method: "PATCH",
+    body: JSON.stringify(fields),
+  });
 }
@@ -0,0 +1,112 @@
+import { daysAgo, estimateReadTime } from "./categorizer.js";
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { Bookmark, LibrarySnapshot, LibraryStats, NamedCount } from "./types.js";
+
+const SNAPSHOT_FILE = "library-snapshots.json";
+const MAX_SNAPSHOTS = 104; // Two years of weekly digests
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const TOP_COUNT = 5;
+
+interface LibrarySnapshotFile {
+  snapshots: LibrarySnapshot[];
+}
+
+/**
+ * Load the library snapshots recorded with previous digests, oldest first
+ */
+function loadSnapshots(): LibrarySnapshot[] {
+  const file = readJsonFile<LibrarySnapshotFile>(dataPath(SNAPSHOT_FILE), { snapshots: [] });
+  return Array.isArray(file.snapshots) ? file.snapshots : [];
+}
+
+/**
+ * Count occurrences and return the most common, ties broken alphabetically
+ */
+function topCounts(names: string[]): NamedCount[] {
+  const counts = new Map<string, number>();
+  for (const name of names) {
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+
+  return [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_COUNT);
+}
+
+/**
+ * Compute library statistics, comparing with the snapshot from the previous digest
+ */
+export function computeLibraryStats(
+  unread: Bookmark[],
+  archived: Bookmark[],
+  now: Date = new Date()
+): LibraryStats {
+  const snapshots = loadSnapshots();
+  const previous = snapshots.at(-1);
+  const since = previous ? new Date(previous.takenAt) : new Date(now.getTime() - WEEK_MS);
+  const windowStart = new Date(now.getTime() - config.libraryTrendWeeks * WEEK_MS);
+  const all = [...unread, ...archived];
+  const previouslyArchived = previous?.archivedIds && new Set(previous.archivedIds);
+
+  const recent = all.filter((b) => b.createdAt >= windowStart);
+  const oldest = unread.reduce<Bookmark | undefined>(
+    (oldestSoFar, b) => (!oldestSoFar || b.createdAt < oldestSoFar.createdAt ? b : oldestSoFar),
+    undefined
+  );
+
+  return {
+    unread: unread.length,
+    archived: archived.length,
+    savedSinceLast: all.filter((b) => b.createdAt > since).length,
+    archivedSinceLast: previouslyArchived
+      ? archived.filter((b) => !previouslyArchived.has(b.id)).length
+      : undefined,
+    backlogTrend: [
+      ...snapshots
+        .filter((s) => new Date(s.takenAt) >= windowStart)
+        .map(({ takenAt, unread, archived }) => ({ takenAt, unread, archived })),
+      { takenAt: now.toISOString(), unread: unread.length, archived: archived.length },
+    ],
+    topDomains: topCounts(
+      recent.map((b) => b.source).filter((s): s is string => !!s && s !== "unknown")
+    ),
+    topTags: topCounts(recent.flatMap((b) => b.tags.map((t) => t.name))),
+    oldestUnread: oldest && {
+      id: oldest.id,
+      title: oldest.title || "Untitled",
+      daysAgo: daysAgo(oldest.createdAt),
+    },
+    // Links without crawled text, images and assets have nothing to read
+    backlogReadMinutes: unread
+      .map((b) => b.content?.htmlContent || b.content?.text)
+      .filter((content): content is string => !!content)
+      .reduce((sum, content) => sum + estimateReadTime(content), 0),
+  };
+}
+
+/**
+ * Record the library counts of a sent digest, for future trends, with the IDs of its archived
+ * bookmarks so the next digest can count the newly archived ones
+ * Older snapshots drop their IDs, which would otherwise grow the file with every digest
+ */
+export function recordLibrarySnapshot(
+  stats: LibraryStats,
+  archived: Bookmark[],
+  takenAt: Date = new Date()
+): void {
+  const snapshots: LibrarySnapshot[] = loadSnapshots().map(
+    ({ archivedIds: _, ...counts }) => counts
+  );
+  snapshots.push({
+    takenAt: takenAt.toISOString(),
+    unread: stats.unread,
+    archived: stats.archived,
+    archivedIds: archived.map((b) => b.id),
+  });
+
+  writeJsonFile(dataPath(SNAPSHOT_FILE), {
+    snapshots: snapshots.slice(-MAX_SNAPSHOTS),
+  } satisfies LibrarySnapshotFile);
+}
@@ -0,0 +1,161 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { config, getActiveProfileName, getLogLevel, getSecrets, type LogLevel } from "./config.js";
+
+type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Field names ending in these words are never logged, whatever they contain, e.g. "apiKey",
+// "smtpPass", "ntfy_token" or "Authorization" (but not "inputTokens")
+const SECRET_FIELD_WORDS = new Set([
+  "apikey",
+  "token",
+  "secret",
+  "pass",
+  "password",
+  "authorization",
+]);
+const REDACTED = "[redacted]";
+
+// Shorter values (placeholders like "x") would garble every line they appear in
+const MIN_SECRET_LENGTH = 4;
+
+const currentRun = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with a new run ID attached to every log line it (and its async work) writes
+ */
+export function runWithRunId<T>(fn: () => T): T {
+  return currentRun.run(randomBytes(6).toString("hex"), fn);
+}
+
+/**
+ * ID of the digest run the current code belongs to, if any
+ */
+export function getRunId(): string | undefined {
+  return currentRun.getStore();
+}
+
+/**
+ * Level and format from the config, falling back to info/text when the config itself is invalid
+ * (so the error explaining why can still be logged)
+ */
+function getSettings(): { level: LogLevel; format: "text" | "json"; secrets: string[] } {
+  try {
+    const secrets = getSecrets().filter((secret) => secret.length >= MIN_SECRET_LENGTH);
+    return { level: getLogLevel(), format: config.logFormat, secrets };
+  } catch {
+    return { level: "info", format: "text", secrets: [] };
+  }
+}
+
+/**
+ * Check whether a field name (camelCase, snake_case or kebab-case) names a credential
+ */
+function isSecretField(name: string): boolean {
+  const words = name.split(/[_\-\s]+|(?<=[a-z0-9])(?=[A-Z])/).map((w) => w.toLowerCase());
+  return SECRET_FIELD_WORDS.has(words.at(-1)!) || SECRET_FIELD_WORDS.has(words.slice(-2).join(""));
+}
+
+function redact(text: string, secrets: string[]): string {
+  return secrets.reduce((result, secret) => result.replaceAll(secret, REDACTED), text);
+}
+
+/**
+ * Make a field value loggable: errors become their message (their stack trace with `withStack`),
+ * secrets are replaced
+ * Objects are walked rather than serialized, so circular references and BigInts don't throw
+ */
+function sanitize(
+  name: string,
+  value: unknown,
+  secrets: string[],
+  withStack: boolean,
+  seen = new WeakSet<object>()
+): unknown {
+  if (isSecretField(name)) {
+    return REDACTED;
+  }
+  if (value instanceof Error) {
+    return redact((withStack && value.stack) || value.message, secrets);
+  }
+  if (typeof value === "string") {
+    return redact(value, secrets);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value && typeof value === "object") {
+    if (seen.has(value)) {
+      return "[circular]";
+    }
+    seen.add(value);
+    const result = Array.isArray(value)
+      ? value.map((item, index) => sanitize(String(index), item, secrets, withStack, seen))
+      : Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            sanitize(key, item, secrets, withStack, seen),
+          ])
+        );
+    seen.delete(value);
+    return result;
+  }
+  return value;
+}
+
+function formatText(level: LogLevel, message: string, context: LogFields, fields: LogFields) {
+  const prefix = [context.runId, context.profile].filter(Boolean).map((value) => `[${value}] `);
+  const suffix = Object.entries(fields).map(
+    ([name, value]) => ` ${name}=${typeof value === "string" ? value : JSON.stringify(value)}`
+  );
+  return `${level.toUpperCase().padEnd(5)} ${prefix.join("")}${message}${suffix.join("")}`;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  const settings = getSettings();
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) {
+    return;
+  }
+
+  const context = { runId: getRunId(), profile: getActiveProfileName() };
+  const sanitized = Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      // Errors logged at error level keep their stack trace, to show where they came from
+      .map(([name, value]) => [name, sanitize(name, value, settings.secrets, level === "error")])
+  );
+  const text = redact(message, settings.secrets);
+
+  const line =
+    settings.format === "json"
+      ? JSON.stringify({
+          time: new Date().toISOString(),
+          level,
+          msg: text.trim(),
+          ...context,
+          ...sanitized,
+        })
+      : formatText(level, text, context, sanitized);
+
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Leveled logger: text lines by default, one JSON object per line with LOG_FORMAT=json
+ * Every line carries the run ID and profile, and configured secrets are redacted
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
@@ -0,0 +1,133 @@
+import { getActiveProfileName } from "./config.js";
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from a fast local model to a slow chunked summary
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+const RUN_DURATION_BUCKETS = [10, 30, 60, 120, 300, 600, 1200, 1800];
+
+/**
+ * Serialize labels in Prometheus text format, e.g. {profile="home",outcome="success"}
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Monotonic counter, one series per label set
+ */
+class Counter {
+  private values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`),
+    ];
+  }
+}
+
+/**
+ * Histogram with cumulative buckets, one series per label set
+ */
+class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly bounds: number[]
+  ) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const [key, { labels, buckets, sum, count }] of this.series) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${key} ${sum}`);
+      lines.push(`${this.name}_count${key} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Process-wide metrics, exported by the daemon's status server at /metrics
+ */
+export const metrics = {
+  runs: new Counter(
+    "karakeep_digest_runs_total",
+    "Digest runs by profile and outcome (success, skipped or failure)"
+  ),
+  runDuration: new Histogram(
+    "karakeep_digest_run_duration_seconds",
+    "Duration of digest runs",
+    RUN_DURATION_BUCKETS
+  ),
+  llmRequestDuration: new Histogram(
+    "karakeep_digest_llm_request_duration_seconds",
+    "Latency of LLM requests by provider, including failed ones",
+    LATENCY_BUCKETS
+  ),
+  llmErrors: new Counter("karakeep_digest_llm_errors_total", "Failed LLM requests by provider"),
+  karakeepRequests: new Counter(
+    "karakeep_digest_karakeep_requests_total",
+    'Karakeep API requests by HTTP status ("error" when no response)'
+  ),
+  emailsSent: new Counter("karakeep_digest_emails_sent_total", "Digest emails sent by profile"),
+};
+
+/**
+ * Render every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return `${Object.values(metrics)
+    .flatMap((metric) => metric.render())
+    .join("\n")}\n`;
+}
+
+/**
+ * The "profile" label for the current run ("default" without PROFILES_CONFIG)
+ */
+export function profileLabel(): string {
+  return getActiveProfileName() ?? "default";
+}
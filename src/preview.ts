@@ -0,0 +1,88 @@
+import { mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { join } from "node:path";
+import { renderDigest, TEMPLATE_PATH } from "./email.js";
+import { logger } from "./logger.js";
+import type { SummarizedDigest } from "./types.js";
+
+const DATE_FIELDS = new Set(["createdAt", "generatedAt"]);
+const RELOAD_POLL_MS = 1000;
+
+/**
+ * Polls the preview server for template changes and reloads the page
+ */
+const RELOAD_SCRIPT = `<script>
+(() => {
+  let version = null;
+  setInterval(async () => {
+    try {
+      const current = await (await fetch("/__version")).text();
+      if (version !== null && current !== version) location.reload();
+      version = current;
+    } catch {}
+  }, ${RELOAD_POLL_MS});
+})();
+</script>`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Load a SummarizedDigest saved by a previous preview run (digest.json)
+ */
+export function loadDigestFixture(path: string): SummarizedDigest {
+  return JSON.parse(readFileSync(path, "utf-8"), (key, value) =>
+    DATE_FIELDS.has(key) && typeof value === "string" ? new Date(value) : value
+  ) as SummarizedDigest;
+}
+
+/**
+ * Write the rendered digest (HTML, plain text) and its data as a reusable fixture
+ */
+export function writePreview(digest: SummarizedDigest, outputDir: string): void {
+  const { html, plainText } = renderDigest(digest);
+
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(join(outputDir, "digest.html"), html);
+  writeFileSync(join(outputDir, "digest.txt"), plainText);
+  writeFileSync(join(outputDir, "digest.json"), JSON.stringify(digest, null, 2));
+
+  logger.info(`Preview written to ${outputDir} (digest.html, digest.txt, digest.json)`);
+}
+
+/**
+ * Serve the digest on a local port, re-rendering on every request
+ * The page reloads itself whenever templates/digest.html changes
+ */
+export function servePreview(digest: SummarizedDigest, port: number): void {
+  const server = createServer((req, res) => {
+    if (req.url === "/__version") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(String(statSync(TEMPLATE_PATH).mtimeMs));
+      return;
+    }
+
+    try {
+      const { html, plainText } = renderDigest(digest);
+
+      if (req.url === "/text") {
+        res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+        res.end(plainText);
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(html.replace("</body>", `${RELOAD_SCRIPT}</body>`));
+    } catch (error) {
+      // Keep serving (and polling) so fixing a template error recovers automatically
+      res.writeHead(500, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(`<pre>Template error: ${escapeHtml((error as Error).message)}</pre>${RELOAD_SCRIPT}`);
+    }
+  });
+
+  server.listen(port, () => {
+    logger.info(`Preview server running at http://localhost:${port} (plain text at /text)`);
+    logger.info("Edit templates/digest.html and the page will reload. Press Ctrl+C to stop");
+  });
+}
@@ -0,0 +1,365 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { config, getLLMProviders, type LLMProviderName } from "./config.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import type { LLMProvider } from "./types.js";
+
+const ANTHROPIC_MODEL = "claude-haiku-4-5";
+
+// Retries per provider for transient errors (network failures, rate limits, 5xx)
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+
+// Consecutive failed calls before a provider is skipped, and for how long
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * HTTP error from an LLM API, carrying the status so retries can tell transient errors apart
+ */
+export class LLMHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "LLMHttpError";
+  }
+}
+
+/**
+ * Abort an LLM API request, including reading its response, after LLM_TIMEOUT_SECONDS,
+ * so a hung server fails like any other transient error instead of stalling the digest
+ */
+export function llmTimeoutSignal(): AbortSignal {
+  return AbortSignal.timeout(config.llmTimeoutSeconds * 1000);
+}
+
+/**
+ * Completion text along with the provider that produced it
+ */
+export interface LLMCompletion {
+  text: string;
+  provider: string;
+}
+
+/**
+ * Anthropic/Claude LLM provider
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = `anthropic/${ANTHROPIC_MODEL}`;
+  readonly chunkTokens = config.anthropicChunkTokens;
+  private client: Anthropic;
+
+  constructor() {
+    this.client = new Anthropic({
+      apiKey: config.anthropicApiKey,
+      // Retries are handled by the provider chain
+      maxRetries: 0,
+      timeout: config.llmTimeoutSeconds * 1000,
+    });
+  }
+
+  async complete(prompt: string, maxTokens: number): Promise<string> {
+    const response = await this.client.messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: maxTokens,
+      messages: [{ role: "user", content: prompt }],
+    });
+
+    const content = response.content[0];
+    if (content.type === "text") {
+      return content.text;
+    }
+
+    throw new Error("Unexpected response type from Anthropic");
+  }
+}
+
+/**
+ * Ollama local LLM provider
+ */
+class OllamaProvider implements LLMProvider {
+  readonly name: string;
+  readonly chunkTokens = config.ollamaChunkTokens;
+  private baseUrl: string;
+  private model: string;
+
+  constructor() {
+    this.baseUrl = config.ollamaUrl!;
+    this.model = config.ollamaModel;
+    this.name = `ollama/${this.model}`;
+  }
+
+  async complete(prompt: string, maxTokens: number): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.model,
+        prompt,
+        stream: false,
+        options: { num_predict: maxTokens },
+      }),
+      signal: llmTimeoutSignal(),
+    });
+
+    if (!response.ok) {
+      throw new LLMHttpError(`Ollama error: ${response.status}`, response.status);
+    }
+
+    const data = (await response.json()) as { response: string };
+    return data.response;
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions provider (OpenAI, llama.cpp, vLLM, LM Studio, LiteLLM, ...)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly chunkTokens = config.openaiChunkTokens;
+  private baseUrl: string;
+  private model: string;
+
+  constructor() {
+    this.baseUrl = config.openaiBaseUrl.replace(/\/$/, "");
+    this.model = config.openaiModel!;
+    this.name = `openai/${this.model}`;
+  }
+
+  async complete(prompt: string, maxTokens: number): Promise<string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.openaiApiKey) {
+      headers.Authorization = `Bearer ${config.openaiApiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: maxTokens,
+        temperature: config.openaiTemperature,
+        response_format: config.openaiJsonMode ? { type: "json_object" } : undefined,
+      }),
+      signal: llmTimeoutSignal(),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new LLMHttpError(
+        `OpenAI-compatible API error ${response.status}: ${body.slice(0, 200)}`,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: string | null } }[];
+    };
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("Unexpected response from OpenAI-compatible API");
+    }
+
+    return content;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether an error is worth retrying
+ * Timeouts and errors without an HTTP status (network failures) are; 4xx other than
+ * timeouts/rate limits are not
+ */
+function isTransient(error: unknown): boolean {
+  if ((error as Error).name === "TimeoutError") {
+    return true;
+  }
+  const status = (error as { status?: number }).status;
+  if (typeof status !== "number") {
+    return true;
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Call a provider once, recording its latency and any error in the metrics
+ */
+async function timedComplete(
+  provider: LLMProvider,
+  prompt: string,
+  maxTokens: number
+): Promise<string> {
+  const start = performance.now();
+  try {
+    return await provider.complete(prompt, maxTokens);
+  } catch (error) {
+    metrics.llmErrors.inc({ provider: provider.name });
+    throw error;
+  } finally {
+    metrics.llmRequestDuration.observe((performance.now() - start) / 1000, {
+      provider: provider.name,
+    });
+  }
+}
+
+/**
+ * Call a provider, retrying transient errors with exponential backoff
+ */
+async function completeWithRetries(
+  provider: LLMProvider,
+  prompt: string,
+  maxTokens: number
+): Promise<string> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await timedComplete(provider, prompt, maxTokens);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isTransient(error)) {
+        throw error;
+      }
+
+      const delay = RETRY_DELAY_MS * 2 ** attempt;
+      logger.warn(
+        `${provider.name} failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}), retrying in ${delay}ms`,
+        { provider: provider.name, attempt: attempt + 1, delayMs: delay, error }
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Stops calling a provider for a while after repeated failures
+ * After the cooldown one call is let through; another failure re-opens it
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+
+  isOpen(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  /**
+   * Returns true if this failure opened the circuit
+   */
+  recordFailure(): boolean {
+    this.failures++;
+    if (this.failures >= CIRCUIT_FAILURE_THRESHOLD && !this.isOpen()) {
+      this.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Ordered list of providers: each call goes to the first provider whose circuit is closed,
+ * retrying transient errors and failing over to the next provider
+ */
+export class ProviderChain implements LLMProvider {
+  readonly name: string;
+  /** The smallest budget in the chain, so any provider can take over a chunked prompt */
+  readonly chunkTokens: number;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly providers: LLMProvider[]) {
+    this.name = providers.map((p) => p.name).join(",");
+    this.chunkTokens = Math.min(...providers.map((p) => p.chunkTokens));
+    for (const provider of providers) {
+      this.breakers.set(provider.name, new CircuitBreaker());
+    }
+  }
+
+  /**
+   * Names of every provider in the chain, in order
+   */
+  get providerNames(): string[] {
+    return this.providers.map((p) => p.name);
+  }
+
+  async complete(prompt: string, maxTokens: number): Promise<string> {
+    return (await this.completeWithProvider(prompt, maxTokens)).text;
+  }
+
+  /**
+   * Complete a prompt, reporting which provider produced the result
+   * Throws if every provider fails or is skipped
+   */
+  async completeWithProvider(prompt: string, maxTokens: number): Promise<LLMCompletion> {
+    const errors: string[] = [];
+
+    for (const [index, provider] of this.providers.entries()) {
+      const breaker = this.breakers.get(provider.name)!;
+      if (breaker.isOpen()) {
+        errors.push(`${provider.name}: skipped after repeated failures`);
+        continue;
+      }
+
+      try {
+        const text = await completeWithRetries(provider, prompt, maxTokens);
+        breaker.recordSuccess();
+        return { text, provider: provider.name };
+      } catch (error) {
+        const message = (error as Error).message;
+        errors.push(`${provider.name}: ${message}`);
+
+        if (breaker.recordFailure()) {
+          logger.warn(
+            `${provider.name} failed ${CIRCUIT_FAILURE_THRESHOLD} times in a row, skipping it for ${CIRCUIT_COOLDOWN_MS / 60000} minutes`,
+            { provider: provider.name }
+          );
+        }
+
+        const next = this.providers[index + 1];
+        if (next) {
+          logger.warn(`${provider.name} failed, falling back to ${next.name}`, {
+            provider: provider.name,
+            error: message,
+          });
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed (${errors.join("; ")})`);
+  }
+}
+
+/**
+ * Create a single LLM provider by name
+ */
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "anthropic":
+      return new AnthropicProvider();
+    case "openai":
+      return new OpenAICompatibleProvider();
+    case "ollama":
+      return new OllamaProvider();
+  }
+}
+
+/**
+ * Create the configured providers, in fallback order
+ */
+export function createProviders(): LLMProvider[] {
+  return getLLMProviders().map(createProvider);
+}
+
+/**
+ * Create the configured provider chain (a single provider is a chain of one)
+ */
+export function createProviderChain(): ProviderChain {
+  return new ProviderChain(createProviders());
+}
@@ -0,0 +1,71 @@
+import { randomBytes } from "node:crypto";
+
+/**
+ * Source of random numbers in [0, 1), like Math.random
+ */
+export type Rng = () => number;
+
+/**
+ * Generate a fresh seed for a run (8 hex characters, easy to copy from the log)
+ */
+export function createSeed(): string {
+  return randomBytes(4).toString("hex");
+}
+
+/**
+ * Hash a seed string to a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded PRNG (mulberry32): the same seed always produces the same sequence
+ */
+export function createRng(seed: string): Rng {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
+
+/**
+ * Unbiased shuffle (Fisher–Yates), returning a new array
+ */
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Random order where items with a higher weight tend to come first, returning a new array
+ * Taking the first n is weighted sampling without replacement (Efraimidis–Spirakis)
+ */
+export function weightedShuffle<T>(items: T[], weight: (item: T) => number, rng: Rng): T[] {
+  return items
+    .map((item) => {
+      const w = Math.max(weight(item), Number.EPSILON);
+      return { item, key: Math.log(1 - rng()) / w };
+    })
+    .sort((a, b) => b.key - a.key)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,162 @@
+import { z } from "zod";
+import type {
+  ArticleSummaryResponse,
+  ClusterLabelResponse,
+  ClusterSynthesisResponse,
+} from "./types.js";
+
+/**
+ * How an LLM response was turned into a valid result
+ * - clean: the whole response (minus code fences) was valid
+ * - extracted: valid JSON object found inside surrounding prose
+ * - repaired: valid after a repair re-prompt
+ * - fallback: no valid result, non-LLM fallback used
+ */
+export type ResponsePath = "clean" | "extracted" | "repaired" | "fallback";
+
+export type ParsedResponse<T> =
+  | { ok: true; value: T; path: "clean" | "extracted" }
+  | { ok: false; error: string };
+
+/**
+ * Accept key insights given as one string (one insight per line, optionally bulleted)
+ */
+const keyInsightsSchema = z.preprocess(
+  (val) =>
+    typeof val === "string"
+      ? val
+          .split(/\n+/)
+          .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+          .filter(Boolean)
+      : val,
+  z.array(z.string().trim().min(1)).min(1)
+);
+
+export const articleSummarySchema: z.ZodType<ArticleSummaryResponse> = z.object({
+  summary: z.string().trim().min(1),
+});
+
+export const clusterSynthesisSchema: z.ZodType<ClusterSynthesisResponse> = z.object({
+  overview: z.string().trim().min(1),
+  keyInsights: keyInsightsSchema,
+  standout: z.string().trim().min(1),
+});
+
+export const clusterLabelSchema: z.ZodType<ClusterLabelResponse> = z.object({
+  label: z.string().trim().min(1).max(60),
+});
+
+/**
+ * Remove potential markdown code block wrapping
+ */
+function stripCodeFences(response: string): string {
+  let cleaned = response.trim();
+
+  if (cleaned.startsWith("```json")) {
+    cleaned = cleaned.slice(7);
+  } else if (cleaned.startsWith("```")) {
+    cleaned = cleaned.slice(3);
+  }
+
+  if (cleaned.endsWith("```")) {
+    cleaned = cleaned.slice(0, -3);
+  }
+
+  return cleaned.trim();
+}
+
+/**
+ * Find the first balanced {...} in the text that parses as JSON
+ * Braces inside string literals are ignored
+ */
+export function extractJsonObject(text: string): string | null {
+  for (let start = text.indexOf("{"); start !== -1; start = text.indexOf("{", start + 1)) {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+        if (depth === 0) {
+          const candidate = text.slice(start, i + 1);
+          try {
+            JSON.parse(candidate);
+            return candidate;
+          } catch {
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate an LLM response against a schema
+ * Tries the whole response first, then the first JSON object embedded in it
+ */
+export function parseResponse<T>(response: string, schema: z.ZodType<T>): ParsedResponse<T> {
+  const candidates: Array<[string, "clean" | "extracted"]> = [[stripCodeFences(response), "clean"]];
+  const extracted = extractJsonObject(response);
+  if (extracted) {
+    candidates.push([extracted, "extracted"]);
+  }
+
+  let error = "No JSON object found in the response";
+
+  for (const [candidate, path] of candidates) {
+    let json: unknown;
+    try {
+      json = JSON.parse(candidate);
+    } catch (parseError) {
+      error = `Invalid JSON: ${(parseError as Error).message}`;
+      continue;
+    }
+
+    const result = schema.safeParse(json);
+    if (result.success) {
+      return { ok: true, value: result.data, path };
+    }
+    error = z.prettifyError(result.error);
+  }
+
+  return { ok: false, error };
+}
+
+/**
+ * Fill in the repair prompt template for a response that failed validation
+ */
+export function buildRepairPrompt(
+  template: string,
+  response: string,
+  error: string,
+  schema: z.ZodType
+): string {
+  const jsonSchema = JSON.stringify(z.toJSONSchema(schema, { io: "output" }), null, 2);
+
+  // Replacer functions so "$" sequences in the response are inserted literally
+  return template
+    .replace("{{ERROR}}", () => error)
+    .replace("{{RESPONSE}}", () => response.trim())
+    .replace("{{SCHEMA}}", () => jsonSchema);
+}
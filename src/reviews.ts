@@ -0,0 +1,135 @@
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { Bookmark, DigestSections, ReviewGrade, ReviewState } from "./types.js";
+
+const REVIEW_FILE = "reviews.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 style schedule, in days, tuned for a weekly digest
+const FIRST_INTERVAL_DAYS = 7;
+const RELEARN_INTERVAL_DAYS = 1; // Forgotten bookmarks come back in the next digest
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+
+interface ReviewFile {
+  /** Bookmark ID -> review schedule */
+  reviews: Record<string, ReviewState>;
+}
+
+/**
+ * Load the review schedule of every bookmark shown by a spaced-repetition section
+ */
+export function loadReviews(): Map<string, ReviewState> {
+  const file = readJsonFile<ReviewFile>(dataPath(REVIEW_FILE), { reviews: {} });
+  return new Map(Object.entries(file.reviews ?? {}));
+}
+
+function saveReviews(reviews: Map<string, ReviewState>): void {
+  writeJsonFile(dataPath(REVIEW_FILE), {
+    reviews: Object.fromEntries(reviews),
+  } satisfies ReviewFile);
+}
+
+function addDays(from: string, days: number): string {
+  return new Date(new Date(from).getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Whether a bookmark is up for review: never shown by a review section, or due by `now`
+ */
+export function isDueForReview(
+  bookmark: Bookmark,
+  reviews: Map<string, ReviewState>,
+  now: Date
+): boolean {
+  const review = reviews.get(bookmark.id);
+  return !review || new Date(review.dueAt).getTime() <= now.getTime();
+}
+
+/**
+ * Order bookmarks for review: overdue ones first (most overdue first), then ones never shown
+ * (oldest saved first). Bookmarks not yet due are dropped, so they wait for their schedule
+ */
+export function orderForReview(
+  bookmarks: Bookmark[],
+  reviews: Map<string, ReviewState>,
+  now: Date
+): Bookmark[] {
+  const rank = (b: Bookmark): [number, number] => {
+    const review = reviews.get(b.id);
+    return review ? [0, new Date(review.dueAt).getTime()] : [1, b.createdAt.getTime()];
+  };
+
+  return bookmarks
+    .filter((b) => isDueForReview(b, reviews, now))
+    .sort((a, b) => {
+      const [groupA, keyA] = rank(a);
+      const [groupB, keyB] = rank(b);
+      return groupA - groupB || keyA - keyB;
+    });
+}
+
+/**
+ * Schedule the next review of bookmarks shown in spaced-repetition sections of a sent digest
+ * Being shown counts as a successful review unless feedback says otherwise; bookmarks that were
+ * not due keep their schedule, so only real reviews stretch the interval
+ */
+export function recordReviews(digest: DigestSections, shownAt: Date = new Date()): void {
+  const shown = digest.sections.filter((s) => s.review).flatMap((s) => s.bookmarks);
+  if (shown.length === 0) {
+    return;
+  }
+
+  const reviews = loadReviews();
+  const now = shownAt.toISOString();
+
+  for (const bookmark of shown.filter((b) => isDueForReview(b, reviews, shownAt))) {
+    const previous = reviews.get(bookmark.id);
+    const repetitions = (previous?.repetitions ?? 0) + 1;
+    const ease = previous?.ease ?? DEFAULT_EASE;
+    const intervalDays =
+      repetitions === 1 ? FIRST_INTERVAL_DAYS : Math.round(previous!.intervalDays * ease);
+
+    reviews.set(bookmark.id, {
+      repetitions,
+      intervalDays,
+      ease,
+      lastShownAt: now,
+      dueAt: addDays(now, intervalDays),
+    });
+  }
+
+  saveReviews(reviews);
+}
+
+/**
+ * Adjust a bookmark's schedule from review feedback in the email
+ * "remembered" pushes the next review further out; "forgotten" brings it back next digest
+ * Returns false if the bookmark has no review schedule (e.g. the review store was reset)
+ */
+export function recordReviewFeedback(bookmarkId: string, grade: ReviewGrade): boolean {
+  const reviews = loadReviews();
+  const review = reviews.get(bookmarkId);
+  if (!review) {
+    return false;
+  }
+
+  // One grade per showing, so clicking a link twice doesn't count twice
+  if (review.lastGrade) {
+    return true;
+  }
+  review.lastGrade = grade;
+
+  if (grade === "forgotten") {
+    review.ease = Math.max(MIN_EASE, review.ease - 0.2);
+    review.repetitions = 0;
+    review.intervalDays = RELEARN_INTERVAL_DAYS;
+  } else {
+    review.ease += 0.15;
+    review.intervalDays = Math.round(review.intervalDays * EASY_BONUS);
+  }
+  review.dueAt = addDays(review.lastShownAt, review.intervalDays);
+
+  saveReviews(reviews);
+  return true;
+}
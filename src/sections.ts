@@ -0,0 +1,128 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { ConfigError, config } from "./config.js";
+import type { SectionDefinition } from "./types.js";
+
+const sectionSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    subtitle: z.string().optional(),
+    emoji: z.string().optional(),
+    type: z.enum(["list", "roundup"]).default("list"),
+    source: z.enum(["unread", "archived", "favourites", "all", "list"]).default("unread"),
+    listId: z.string().min(1).optional(),
+    minAgeDays: z.number().nonnegative().optional(),
+    maxAgeDays: z.number().nonnegative().optional(),
+    sameMonthLastYear: z.boolean().default(false),
+    includeTags: z.array(z.string()).default([]),
+    excludeTags: z.array(z.string()).default([]),
+    strategy: z
+      .enum(["random", "weighted", "top-scored", "oldest", "spaced-repetition"])
+      .default("random"),
+    count: z.number().int().positive(),
+    minItems: z.number().int().positive().default(1),
+    groupBy: z.enum(["tag", "embedding"]).default("tag"),
+  })
+  .refine((section) => section.source !== "list" || section.listId, {
+    message: 'listId is required when source is "list"',
+    path: ["listId"],
+  });
+
+const sectionsFileSchema = z.object({
+  sections: z
+    .array(sectionSchema)
+    .min(1)
+    .refine((sections) => new Set(sections.map((s) => s.id)).size === sections.length, {
+      message: "Section ids must be unique",
+    }),
+});
+
+/**
+ * The built-in digest layout, used when SECTIONS_CONFIG is not set
+ * (sections.example.json holds the same definitions as a starting point)
+ */
+export const DEFAULT_SECTIONS: SectionDefinition[] = sectionsFileSchema.parse({
+  sections: [
+    {
+      id: "recentlySaved",
+      title: "Hot Off the Press",
+      subtitle: "Your latest finds from the past month",
+      emoji: "📰",
+      source: "unread",
+      maxAgeDays: 30,
+      count: 3,
+    },
+    {
+      id: "buriedTreasure",
+      title: "Buried Treasure",
+      subtitle: "Saved 30+ days ago, still unread",
+      emoji: "👑",
+      source: "unread",
+      minAgeDays: 30,
+      count: 3,
+    },
+    {
+      id: "thisMonthLastYear",
+      title: "Throwback: One Year Ago",
+      subtitle: "What you were reading this time last year",
+      emoji: "📅",
+      source: "all",
+      sameMonthLastYear: true,
+      count: 3,
+    },
+    {
+      id: "tagRoundup",
+      title: "{tag} Roundup",
+      emoji: "🏷",
+      type: "roundup",
+      source: "unread",
+      count: 5,
+      minItems: 3,
+    },
+    {
+      id: "randomPick",
+      title: "Random Pick",
+      emoji: "🎲",
+      source: "unread",
+      count: 1,
+    },
+    {
+      id: "fromTheArchives",
+      title: "From the Archives",
+      subtitle: "A forgotten gem from your archived collection",
+      emoji: "📚",
+      source: "archived",
+      count: 1,
+    },
+  ],
+}).sections;
+
+/**
+ * Load section definitions from SECTIONS_CONFIG (JSON), falling back to the defaults
+ * Read on every run so the daemon picks up edits without a restart
+ */
+export function loadSectionDefinitions(): SectionDefinition[] {
+  if (!config.sectionsConfig) {
+    return DEFAULT_SECTIONS;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(config.sectionsConfig, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(`Failed to read sections config ${config.sectionsConfig}`, [
+      (error as Error).message,
+    ]);
+  }
+
+  const result = sectionsFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid sections config ${config.sectionsConfig}`,
+      result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+
+  return result.data.sections;
+}
@@ -0,0 +1,44 @@
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { Bookmark } from "./types.js";
+
+const SNOOZE_FILE = "snoozed.json";
+
+interface SnoozeFile {
+  /** Bookmark ID -> ISO timestamp the snooze expires */
+  snoozed: Record<string, string>;
+}
+
+/**
+ * Load snoozes that haven't expired yet
+ */
+export function loadActiveSnoozes(now: Date = new Date()): Map<string, Date> {
+  const file = readJsonFile<SnoozeFile>(dataPath(SNOOZE_FILE), { snoozed: {} });
+  const active = new Map<string, Date>();
+
+  for (const [id, until] of Object.entries(file.snoozed ?? {})) {
+    const untilDate = new Date(until);
+    if (untilDate > now) {
+      active.set(id, untilDate);
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Snooze a bookmark until the given date, pruning expired snoozes
+ */
+export function snoozeBookmark(bookmarkId: string, until: Date): void {
+  const snoozed = Object.fromEntries(
+    [...loadActiveSnoozes()].map(([id, date]) => [id, date.toISOString()])
+  );
+  snoozed[bookmarkId] = until.toISOString();
+  writeJsonFile(dataPath(SNOOZE_FILE), { snoozed } satisfies SnoozeFile);
+}
+
+/**
+ * Drop bookmarks that are currently snoozed
+ */
+export function filterSnoozed(bookmarks: Bookmark[], snoozed: Map<string, Date>): Bookmark[] {
+  return bookmarks.filter((b) => !snoozed.has(b.id));
+}
@@ -0,0 +1,186 @@
+import { createServer, type Server } from "node:http";
+import { config } from "./config.js";
+import { DigestError } from "./digest.js";
+import { getRunId, logger, runWithRunId } from "./logger.js";
+import { metrics, renderMetrics } from "./metrics.js";
+import type { RunOutcome, RunStatus, SummarizedDigest } from "./types.js";
+
+interface ProfileStatus {
+  schedule?: string;
+  nextRun?: () => Date | null;
+  running: boolean;
+  lastRun?: RunStatus;
+  /** Failed runs since the last successful one */
+  consecutiveFailures: number;
+}
+
+const startedAt = new Date();
+const profiles = new Map<string, ProfileStatus>();
+
+function getProfileStatus(name: string): ProfileStatus {
+  let status = profiles.get(name);
+  if (!status) {
+    status = { running: false, consecutiveFailures: 0 };
+    profiles.set(name, status);
+  }
+  return status;
+}
+
+/**
+ * Register a profile's cron schedule, so /status can report its next run
+ */
+export function registerSchedule(
+  profile: string,
+  schedule: string,
+  nextRun: () => Date | null
+): void {
+  Object.assign(getProfileStatus(profile), { schedule, nextRun });
+}
+
+/**
+ * Run a profile's digest under a new run ID, recording its outcome for /status and /metrics
+ * Returns whether the run succeeded (a run with nothing to send counts as success)
+ */
+export function trackRun(
+  profile: string,
+  run: () => Promise<SummarizedDigest | null>
+): Promise<boolean> {
+  return runWithRunId(() => recordRun(profile, run));
+}
+
+async function recordRun(
+  profile: string,
+  run: () => Promise<SummarizedDigest | null>
+): Promise<boolean> {
+  const status = getProfileStatus(profile);
+  const start = new Date();
+  status.running = true;
+
+  const finish = (outcome: RunOutcome, details: Partial<RunStatus> = {}) => {
+    const durationSeconds = (Date.now() - start.getTime()) / 1000;
+    status.running = false;
+    status.lastRun = {
+      runId: getRunId(),
+      startedAt: start.toISOString(),
+      finishedAt: new Date().toISOString(),
+      durationSeconds,
+      outcome,
+      ...details,
+    };
+    status.consecutiveFailures = outcome === "failure" ? status.consecutiveFailures + 1 : 0;
+    metrics.runs.inc({ profile, outcome });
+    metrics.runDuration.observe(durationSeconds, { profile });
+  };
+
+  try {
+    const digest = await run();
+    finish(digest ? "success" : "skipped", {
+      sections: digest?.sections.map((s) => ({
+        id: s.id,
+        title: s.title,
+        items: s.bookmarks.length,
+      })),
+    });
+    return true;
+  } catch (error) {
+    finish("failure", {
+      error: (error as Error).message,
+      stage: error instanceof DigestError ? error.stage : undefined,
+    });
+    return false;
+  }
+}
+
+/**
+ * Status of the daemon and each profile's last and next run
+ */
+function getStatus() {
+  return {
+    startedAt: startedAt.toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+    profiles: Object.fromEntries(
+      [...profiles].map(([name, status]) => [
+        name,
+        {
+          schedule: status.schedule,
+          nextRunAt: status.nextRun?.()?.toISOString() ?? null,
+          running: status.running,
+          lastRun: status.lastRun ?? null,
+          consecutiveFailures: status.consecutiveFailures,
+        },
+      ])
+    ),
+  };
+}
+
+/**
+ * Reasons the daemon isn't ready: no schedule registered, or a profile whose last
+ * STATUS_MAX_FAILURES runs all failed (empty when ready)
+ */
+function getReadinessProblems(): string[] {
+  const scheduled = [...profiles].filter(([, status]) => status.schedule);
+  if (scheduled.length === 0) {
+    return ["no schedule registered"];
+  }
+
+  return scheduled
+    .filter(([, status]) => status.consecutiveFailures >= config.statusMaxFailures)
+    .map(
+      ([name, status]) => `profile "${name}" failed ${status.consecutiveFailures} runs in a row`
+    );
+}
+
+/**
+ * HTTP server for /healthz (liveness), /readyz (readiness), /status (JSON) and
+ * /metrics (Prometheus), not yet listening
+ */
+export function createStatusServer(): Server {
+  return createServer((req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+
+    if (req.method !== "GET") {
+      res.writeHead(405).end();
+    } else if (path === "/healthz") {
+      res.writeHead(200, { "Content-Type": "text/plain" }).end("ok\n");
+    } else if (path === "/readyz") {
+      const problems = getReadinessProblems();
+      res
+        .writeHead(problems.length > 0 ? 503 : 200, { "Content-Type": "text/plain" })
+        .end(problems.length > 0 ? `not ready: ${problems.join("; ")}\n` : "ok\n");
+    } else if (path === "/status") {
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(`${JSON.stringify(getStatus(), null, 2)}\n`);
+    } else if (path === "/metrics") {
+      res
+        .writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" })
+        .end(renderMetrics());
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+}
+
+/**
+ * Serve the status endpoints on STATUS_PORT in daemon mode
+ * Returns the server, or undefined if STATUS_PORT is 0
+ */
+export function startStatusServer(): Server | undefined {
+  if (config.statusPort <= 0) {
+    return undefined;
+  }
+
+  const server = createStatusServer();
+
+  // E.g. the port is already in use: digests still run on schedule, only the endpoints are missing
+  server.on("error", (error) => {
+    logger.error(`Status server failed on port ${config.statusPort}`, { error });
+  });
+
+  server.listen(config.statusPort, () => {
+    logger.info(
+      `Status server listening on port ${config.statusPort} (/healthz, /readyz, /status, /metrics)`
+    );
+  });
+  return server;
+}
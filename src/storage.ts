@@ -0,0 +1,37 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+
+/**
+ * Resolve a file path inside the persistent data directory
+ */
+export function dataPath(name: string): string {
+  return join(config.dataDir, name);
+}
+
+/**
+ * Read a JSON file, returning the fallback if it is missing or unreadable
+ */
+export function readJsonFile<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as T;
+  } catch (error) {
+    logger.warn(`Failed to read ${path}, ignoring`, { error });
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename) so a crash never leaves it half-written
+ */
+export function writeJsonFile(path: string, data: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  renameSync(tempPath, path);
+}
@@ -1,18 +1,31 @@
 import { readFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import Anthropic from "@anthropic-ai/sdk";
+import type { z } from "zod";
+import { promptVersion, SummaryCache } from "./cache.js";
 import { daysAgo, estimateReadTime } from "./categorizer.js";
-import { config, getLLMProvider } from "./config.js";
+import { splitIntoChunks, tokensToChars } from "./chunking.js";
+import { getReadableContent } from "./content.js";
 import { fetchBookmarkContent } from "./karakeep.js";
+import { logger } from "./logger.js";
+import { createProviderChain, type ProviderChain } from "./providers.js";
+import {
+  articleSummarySchema,
+  buildRepairPrompt,
+  clusterLabelSchema,
+  clusterSynthesisSchema,
+  parseResponse,
+  type ResponsePath,
+} from "./responses.js";
 import type {
   ArticleSummaryResponse,
   Bookmark,
+  ClusterLabelResponse,
   ClusterSynthesisResponse,
   DigestSections,
-  LLMProvider,
   SummarizedBookmark,
   SummarizedDigest,
+  SummarizedSection,
   TagRoundup,
 } from "./types.js";
 
@@ -21,7 +34,16 @@ const PROMPTS_DIR = join(__dirname, "..", "prompts");
 
 // Rate limiting: max concurrent requests
 const MAX_CONCURRENT = 5;
-const CONTENT_MAX_LENGTH = 8000; // Truncate long content
+// Roundup title for a topic cluster the LLM couldn't name
+const FALLBACK_CLUSTER_LABEL = "Related Reads";
+
+/**
+ * Cached result of summarizing a single bookmark
+ */
+interface CachedArticleSummary {
+  summary: string;
+  readTime: number;
+}
 
 /**
  * Load prompt template from file
@@ -32,209 +54,373 @@ function loadPrompt(name: string): string {
 }
 
 /**
- * Anthropic/Claude LLM provider
+ * Truncate content to max length, preferring beginning and end
+ * Last resort for content that is still too long after condensing
  */
-class AnthropicProvider implements LLMProvider {
-  private client: Anthropic;
-
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: config.anthropicApiKey,
-    });
+function truncateContent(content: string, maxLength: number): string {
+  if (content.length <= maxLength) {
+    return content;
   }
 
-  async complete(prompt: string, maxTokens: number): Promise<string> {
-    const response = await this.client.messages.create({
-      model: "claude-haiku-4-5",
-      max_tokens: maxTokens,
-      messages: [{ role: "user", content: prompt }],
-    });
-
-    const content = response.content[0];
-    if (content.type === "text") {
-      return content.text;
-    }
+  const halfLength = Math.floor(maxLength / 2) - 50;
+  const start = content.slice(0, halfLength);
+  const end = content.slice(-halfLength);
 
-    throw new Error("Unexpected response type from Anthropic");
-  }
+  return `${start}\n\n[... content truncated ...]\n\n${end}`;
 }
 
 /**
- * Ollama local LLM provider
+ * Complete a prompt and validate the response against a schema
+ * If it doesn't validate, re-prompts once with the validation error before giving up
+ * Throws if every provider fails; returns the error if the response is still invalid
  */
-class OllamaProvider implements LLMProvider {
-  private baseUrl: string;
-  private model: string;
-
-  constructor() {
-    this.baseUrl = config.ollamaUrl!;
-    this.model = config.ollamaModel;
+async function completeStructured<T>(
+  provider: ProviderChain,
+  prompt: string,
+  maxTokens: number,
+  schema: z.ZodType<T>
+): Promise<
+  | { ok: true; value: T; provider: string; path: Exclude<ResponsePath, "fallback"> }
+  | { ok: false; error: string }
+> {
+  const completion = await provider.completeWithProvider(prompt, maxTokens);
+  const parsed = parseResponse(completion.text, schema);
+  if (parsed.ok) {
+    return { ok: true, value: parsed.value, provider: completion.provider, path: parsed.path };
   }
 
-  async complete(prompt: string, _maxTokens: number): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/api/generate`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: this.model,
-        prompt,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Ollama error: ${response.status}`);
-    }
-
-    const data = (await response.json()) as { response: string };
-    return data.response;
+  const repairPrompt = buildRepairPrompt(
+    loadPrompt("repair-json"),
+    completion.text,
+    parsed.error,
+    schema
+  );
+  const repair = await provider.completeWithProvider(repairPrompt, maxTokens);
+  const repaired = parseResponse(repair.text, schema);
+  if (repaired.ok) {
+    return { ok: true, value: repaired.value, provider: repair.provider, path: "repaired" };
   }
+
+  return { ok: false, error: repaired.error };
 }
 
 /**
- * Create LLM provider based on configuration
+ * Summarize each piece of a long article in order with the chunk prompt, skipping any the
+ * LLM fails on
  */
-function createProvider(): LLMProvider {
-  const provider = getLLMProvider();
-
-  if (provider === "anthropic") {
-    return new AnthropicProvider();
+async function summarizePieces(
+  provider: ProviderChain,
+  title: string,
+  pieces: string[]
+): Promise<string[]> {
+  const template = loadPrompt("chunk-summary");
+  const summaries: string[] = [];
+
+  for (const [index, piece] of pieces.entries()) {
+    const prompt = template
+      .replace("{{PART}}", String(index + 1))
+      .replace("{{TOTAL}}", String(pieces.length))
+      .replace("{{TITLE}}", () => title)
+      .replace("{{CONTENT}}", () => piece);
+
+    try {
+      const result = await completeStructured(provider, prompt, 200, articleSummarySchema);
+      if (result.ok) {
+        summaries.push(`Part ${index + 1}: ${result.value.summary}`);
+      } else {
+        logger.warn(`Invalid summary for part ${index + 1} of "${title}"`, { error: result.error });
+      }
+    } catch (error) {
+      logger.warn(`Failed to summarize part ${index + 1} of "${title}"`, { error });
+    }
   }
 
-  return new OllamaProvider();
+  return summaries;
 }
 
 /**
- * Truncate content to max length, preferring beginning and end
+ * Condense content to fit in `maxChars` (map-reduce)
+ * Content that already fits is returned as is. Longer content is split on paragraph boundaries
+ * into chunks of the provider's size and every chunk is summarized (map); while the summaries
+ * together are still too long, they are batched into chunks and summarized again (reduce)
  */
-function truncateContent(content: string): string {
-  if (content.length <= CONTENT_MAX_LENGTH) {
+async function condenseContent(
+  provider: ProviderChain,
+  title: string,
+  content: string,
+  maxChars: number
+): Promise<string> {
+  if (content.length <= maxChars) {
     return content;
   }
 
-  const halfLength = Math.floor(CONTENT_MAX_LENGTH / 2) - 50;
-  const start = content.slice(0, halfLength);
-  const end = content.slice(-halfLength);
-
-  return `${start}\n\n[... content truncated ...]\n\n${end}`;
-}
-
-/**
- * Parse JSON from LLM response, handling potential markdown wrapping
- */
-function parseJsonResponse<T>(response: string): T {
-  // Remove potential markdown code block wrapping
-  let cleaned = response.trim();
-
-  if (cleaned.startsWith("```json")) {
-    cleaned = cleaned.slice(7);
-  } else if (cleaned.startsWith("```")) {
-    cleaned = cleaned.slice(3);
+  const chunkChars = tokensToChars(provider.chunkTokens);
+  const chunks = splitIntoChunks(content, chunkChars);
+  let partials = await summarizePieces(provider, title, chunks);
+  if (partials.length === 0) {
+    return truncateContent(content, maxChars);
   }
 
-  if (cleaned.endsWith("```")) {
-    cleaned = cleaned.slice(0, -3);
+  let rounds = 0;
+  while (partials.join("\n\n").length > maxChars) {
+    const batches = splitIntoChunks(partials.join("\n\n"), chunkChars);
+    // Stop once batching no longer shrinks anything (a single summary that is still too long)
+    if (batches.length >= partials.length) {
+      break;
+    }
+    const reduced = await summarizePieces(provider, title, batches);
+    if (reduced.length === 0) {
+      break;
+    }
+    partials = reduced;
+    rounds++;
   }
 
-  cleaned = cleaned.trim();
-
-  return JSON.parse(cleaned) as T;
+  logger.info(
+    `  Condensed "${title}" from ${chunks.length} chunks` +
+      (rounds > 0 ? ` (${rounds} reduce ${rounds === 1 ? "round" : "rounds"})` : "")
+  );
+  return truncateContent(partials.join("\n\n"), maxChars);
 }
 
 /**
- * Summarize a single article
+ * Summarize a single article, along with the provider that produced the summary
+ * Articles over the provider's chunk budget are condensed chunk by chunk first (map-reduce)
+ * Returns null if the LLM call fails, so the caller can fall back without caching
  */
 async function summarizeArticle(
-  provider: LLMProvider,
+  provider: ProviderChain,
   bookmark: Bookmark,
-  fetchedContent?: string | null
-): Promise<ArticleSummaryResponse> {
-  const promptTemplate = loadPrompt("single-article");
-  // Use fetched content first (full article), then fall back to inline content
-  const contentText =
-    fetchedContent || bookmark.content?.htmlContent || bookmark.content?.text || "";
-  const content = truncateContent(contentText || bookmark.summary || bookmark.title || "");
-
-  const prompt = promptTemplate
-    .replace("{{TITLE}}", bookmark.title || "Untitled")
-    .replace("{{CONTENT}}", content);
+  promptTemplate: string,
+  readableContent: string
+): Promise<{ summary: ArticleSummaryResponse; provider: string } | null> {
+  const title = bookmark.title || "Untitled";
 
   try {
-    const response = await provider.complete(prompt, 300);
-    return parseJsonResponse<ArticleSummaryResponse>(response);
-  } catch (error) {
-    console.warn(`Failed to summarize article "${bookmark.title}":`, (error as Error).message);
+    const content = await condenseContent(
+      provider,
+      title,
+      readableContent || bookmark.summary || title,
+      tokensToChars(provider.chunkTokens)
+    );
+    const prompt = promptTemplate.replace("{{TITLE}}", title).replace("{{CONTENT}}", () => content);
+
+    const result = await completeStructured(provider, prompt, 300, articleSummarySchema);
+    if (!result.ok) {
+      logger.warn(`Invalid summary for "${bookmark.title}" after repair`, {
+        bookmarkId: bookmark.id,
+        error: result.error,
+      });
+      logger.info(`  Summary path for "${bookmark.title}": fallback`, { bookmarkId: bookmark.id });
+      return null;
+    }
 
-    // Fallback to existing summary or title
-    return {
-      summary: bookmark.summary || bookmark.title || "No summary available",
-    };
+    logger.info(`  Summary path for "${bookmark.title}": ${result.path} (${result.provider})`, {
+      bookmarkId: bookmark.id,
+    });
+    return { summary: result.value, provider: result.provider };
+  } catch (error) {
+    logger.warn(`Failed to summarize article "${bookmark.title}"`, {
+      bookmarkId: bookmark.id,
+      error,
+    });
+    logger.info(`  Summary path for "${bookmark.title}": fallback`, { bookmarkId: bookmark.id });
+    return null;
   }
 }
 
 /**
- * Synthesize a cluster of articles with the same tag
+ * Synthesize a cluster of articles with the same tag from their full text where it fits,
+ * reusing their article summaries for any that don't (so no extra LLM calls)
  */
 async function synthesizeCluster(
-  provider: LLMProvider,
+  provider: ProviderChain,
+  cache: SummaryCache,
   tag: string,
-  bookmarks: Bookmark[]
-): Promise<ClusterSynthesisResponse> {
+  bookmarks: SummarizedBookmark[]
+): Promise<TagRoundup> {
   const promptTemplate = loadPrompt("topic-cluster");
+  const cacheKey = {
+    bookmarks,
+    prompt: "topic-cluster",
+    promptVersion: promptVersion(promptTemplate),
+    scope: tag,
+  };
+
+  const cached = cache.getFromAny<ClusterSynthesisResponse>(cacheKey, provider.providerNames);
+  if (cached) {
+    return { tag, synthesis: cached.value, synthesizedBy: cached.model };
+  }
 
   // Fetch content for all bookmarks
-  const contentResults = await Promise.all(bookmarks.map((b) => fetchBookmarkContent(b)));
+  const contentResults = await mapWithConcurrency(
+    bookmarks,
+    (b) => fetchBookmarkContent(b),
+    MAX_CONCURRENT
+  );
 
-  const articles = bookmarks
-    .map((b, index) => {
-      const fetchedContent = contentResults[index];
-      const contentText = fetchedContent || b.content?.htmlContent || b.content?.text || "";
-      return `## ${b.title || "Untitled"}\n${truncateContent(contentText || b.summary || "")}`;
-    })
-    .join("\n\n---\n\n");
+  try {
+    // Articles share one prompt's budget; any that don't fit their share stand in with the
+    // summary already made for the article itself
+    const share = Math.floor(tokensToChars(provider.chunkTokens) / Math.max(bookmarks.length, 1));
+    const articles = bookmarks.map((b, index) => {
+      const contentText = getReadableContent(b, contentResults[index]) || b.summary || "";
+      const text =
+        contentText.length <= share
+          ? contentText
+          : b.summarizedBy
+            ? b.aiSummary
+            : truncateContent(contentText, share);
+      return `## ${b.title || "Untitled"}\n${text}`;
+    });
 
-  const prompt = promptTemplate
-    .replace("{{COUNT}}", String(bookmarks.length))
-    .replace("{{TAG}}", tag)
-    .replace("{{ARTICLES}}", articles);
+    const prompt = promptTemplate
+      .replace("{{COUNT}}", String(bookmarks.length))
+      .replace("{{TAG}}", tag)
+      .replace("{{ARTICLES}}", () => articles.join("\n\n---\n\n"));
 
-  try {
-    const response = await provider.complete(prompt, 500);
-    return parseJsonResponse<ClusterSynthesisResponse>(response);
+    const result = await completeStructured(provider, prompt, 500, clusterSynthesisSchema);
+    if (result.ok) {
+      logger.info(`  Synthesis path for "${tag}": ${result.path} (${result.provider})`);
+      cache.set({ ...cacheKey, model: result.provider }, result.value);
+      return { tag, synthesis: result.value, synthesizedBy: result.provider };
+    }
+    logger.warn(`Invalid synthesis for "${tag}" after repair`, { error: result.error });
   } catch (error) {
-    console.warn(`Failed to synthesize cluster "${tag}":`, (error as Error).message);
+    logger.warn(`Failed to synthesize cluster "${tag}"`, { error });
+  }
 
-    // Fallback synthesis
-    return {
+  // Fallback synthesis
+  logger.info(`  Synthesis path for "${tag}": fallback`);
+  return {
+    tag,
+    synthesis: {
       overview: `A collection of ${bookmarks.length} articles about ${tag}.`,
       keyInsights: bookmarks.slice(0, 3).map((b) => b.title || "Untitled"),
       standout: `Check out "${bookmarks[0]?.title || "the first article"}" first.`,
-    };
+    },
+  };
+}
+
+/**
+ * Name a topic cluster from its articles' titles and summaries
+ */
+async function labelCluster(
+  provider: ProviderChain,
+  cache: SummaryCache,
+  bookmarks: SummarizedBookmark[]
+): Promise<string> {
+  const promptTemplate = loadPrompt("cluster-label");
+  const cacheKey = {
+    bookmarks,
+    prompt: "cluster-label",
+    promptVersion: promptVersion(promptTemplate),
+  };
+
+  const cached = cache.getFromAny<ClusterLabelResponse>(cacheKey, provider.providerNames);
+  if (cached) {
+    return cached.value.label;
   }
+
+  const articles = bookmarks.map((b) => `- ${b.title || "Untitled"}: ${b.aiSummary}`).join("\n");
+  const prompt = promptTemplate
+    .replace("{{COUNT}}", String(bookmarks.length))
+    .replace("{{ARTICLES}}", () => articles);
+
+  try {
+    const result = await completeStructured(provider, prompt, 50, clusterLabelSchema);
+    if (result.ok) {
+      cache.set({ ...cacheKey, model: result.provider }, result.value);
+      return result.value.label;
+    }
+    logger.warn("Invalid cluster label after repair", { error: result.error });
+  } catch (error) {
+    logger.warn("Failed to label topic cluster", { error });
+  }
+
+  return FALLBACK_CLUSTER_LABEL;
 }
 
 /**
  * Convert Bookmark to SummarizedBookmark with AI summary
+ * Cache hits skip both the asset download and the LLM call
  */
 async function toSummarizedBookmark(
-  provider: LLMProvider,
+  provider: ProviderChain,
+  cache: SummaryCache,
   bookmark: Bookmark
 ): Promise<SummarizedBookmark> {
-  // Fetch actual content from Karakeep asset first (for both summarization and read time)
-  const fetchedContent = await fetchBookmarkContent(bookmark);
-  const rawContent = fetchedContent || bookmark.content?.htmlContent || bookmark.content?.text;
+  const promptTemplate = loadPrompt("single-article");
+  const cacheKey = {
+    bookmarks: [bookmark],
+    prompt: "single-article",
+    promptVersion: promptVersion(promptTemplate),
+  };
 
-  // Generate summary using fetched content
-  const summary = await summarizeArticle(provider, bookmark, fetchedContent);
+  // A summary from any provider in the chain will do
+  const cached = cache.getFromAny<CachedArticleSummary>(cacheKey, provider.providerNames);
+  if (cached) {
+    return {
+      ...bookmark,
+      aiSummary: cached.value.summary,
+      daysAgo: daysAgo(bookmark.createdAt),
+      readTime: cached.value.readTime,
+      summarizedBy: cached.model,
+    };
+  }
+
+  // Fetch actual content from Karakeep asset first and extract the article text
+  // (for both summarization and read time)
+  const readableContent = getReadableContent(bookmark, await fetchBookmarkContent(bookmark));
+
+  // Generate summary using the extracted text
+  const result = await summarizeArticle(provider, bookmark, promptTemplate, readableContent);
 
   // Only calculate read time if we have content, otherwise set to 0 (will be hidden in template)
-  const readTime = rawContent ? estimateReadTime(rawContent) : 0;
+  const readTime = readableContent ? estimateReadTime(readableContent) : 0;
+
+  if (result) {
+    cache.set<CachedArticleSummary>(
+      { ...cacheKey, model: result.provider },
+      { summary: result.summary.summary, readTime }
+    );
+  }
 
   return {
     ...bookmark,
-    aiSummary: summary.summary,
+    // Fallback to existing summary or title
+    aiSummary:
+      result?.summary.summary || bookmark.summary || bookmark.title || "No summary available",
     daysAgo: daysAgo(bookmark.createdAt),
     readTime,
+    summarizedBy: result?.provider,
+  };
+}
+
+/**
+ * Summarize one bookmark from scratch, bypassing the summary cache (for prompt debugging)
+ * Returns the extracted text that was summarized along with the result (null if the LLM failed)
+ */
+export async function summarizeBookmark(
+  bookmark: Bookmark,
+  provider: ProviderChain = createProviderChain()
+): Promise<{
+  readableContent: string;
+  readTime: number;
+  result: { summary: ArticleSummaryResponse; provider: string } | null;
+}> {
+  const readableContent = getReadableContent(bookmark, await fetchBookmarkContent(bookmark));
+  const result = await summarizeArticle(
+    provider,
+    bookmark,
+    loadPrompt("single-article"),
+    readableContent
+  );
+
+  return {
+    readableContent,
+    readTime: readableContent ? estimateReadTime(readableContent) : 0,
+    result,
   };
 }
 
@@ -268,85 +454,75 @@ async function mapWithConcurrency<T, R>(
 }
 
 /**
- * Summarize all sections of the digest
+ * Count the summaries and roundup syntheses each provider produced ("fallback" = no LLM output)
  */
-export async function summarizeSections(sections: DigestSections): Promise<SummarizedDigest> {
-  console.log("Generating AI summaries...");
-  const provider = createProvider();
-
-  // Summarize Recently Saved items
-  console.log(`  Summarizing ${sections.recentlySaved.length} Recently Saved items`);
-  const recentlySaved = await mapWithConcurrency(
-    sections.recentlySaved,
-    (b) => toSummarizedBookmark(provider, b),
-    MAX_CONCURRENT
-  );
-
-  // Summarize Buried Treasure items
-  console.log(`  Summarizing ${sections.buriedTreasure.length} Buried Treasure items`);
-  const buriedTreasure = await mapWithConcurrency(
-    sections.buriedTreasure,
-    (b) => toSummarizedBookmark(provider, b),
-    MAX_CONCURRENT
-  );
-
-  // Summarize This Month Last Year items
-  console.log(`  Summarizing ${sections.thisMonthLastYear.length} historical items`);
-  const thisMonthLastYear = await mapWithConcurrency(
-    sections.thisMonthLastYear,
-    (b) => toSummarizedBookmark(provider, b),
-    MAX_CONCURRENT
-  );
+function countSummaryProviders(sections: SummarizedSection[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const producers = sections.flatMap((section) => [
+    ...section.bookmarks.map((b) => b.summarizedBy),
+    ...(section.roundup ? [section.roundup.synthesizedBy] : []),
+  ]);
+
+  for (const producer of producers) {
+    const name = producer ?? "fallback";
+    counts[name] = (counts[name] ?? 0) + 1;
+  }
 
-  // Process Tag Roundup with synthesis
-  let tagRoundup: TagRoundup | null = null;
-  if (sections.tagRoundup) {
-    console.log(
-      `  Synthesizing ${sections.tagRoundup.bookmarks.length} items for "${sections.tagRoundup.tag}" roundup`
-    );
+  return counts;
+}
 
-    const summarizedBookmarks = await mapWithConcurrency(
-      sections.tagRoundup.bookmarks,
-      (b) => toSummarizedBookmark(provider, b),
+/**
+ * Summarize all sections of the digest, with the configured providers unless one is given
+ */
+export async function summarizeSections(
+  digest: DigestSections,
+  provider: ProviderChain = createProviderChain()
+): Promise<SummarizedDigest> {
+  logger.info("Generating AI summaries...");
+  const cache = SummaryCache.load();
+  const sections: SummarizedSection[] = [];
+
+  for (const section of digest.sections) {
+    logger.info(`  Summarizing ${section.bookmarks.length} "${section.title}" items`);
+    const bookmarks = await mapWithConcurrency(
+      section.bookmarks,
+      (b) => toSummarizedBookmark(provider, cache, b),
       MAX_CONCURRENT
     );
 
-    const synthesis = await synthesizeCluster(
-      provider,
-      sections.tagRoundup.tag,
-      sections.tagRoundup.bookmarks
-    );
-
-    tagRoundup = {
-      tag: sections.tagRoundup.tag,
-      bookmarks: summarizedBookmarks,
-      synthesis,
-    };
-  }
+    // Topic clusters are named after their articles, standing in for the tag
+    let { title, tag } = section;
+    if (section.clustered) {
+      tag = await labelCluster(provider, cache, bookmarks);
+      title = title.replace("{tag}", tag);
+      logger.info(`  Labelled topic cluster "${tag}"`);
+    }
 
-  // Summarize Random Pick
-  let randomPick: SummarizedBookmark | null = null;
-  if (sections.randomPick) {
-    console.log("  Summarizing random pick");
-    randomPick = await toSummarizedBookmark(provider, sections.randomPick);
-  }
+    // Roundups also get a synthesis across the whole tag cluster
+    let roundup: TagRoundup | undefined;
+    if (section.type === "roundup" && tag) {
+      logger.info(`  Synthesizing "${tag}" roundup`);
+      roundup = await synthesizeCluster(provider, cache, tag, bookmarks);
+    }
 
-  // Summarize From the Archives
-  let fromTheArchives: SummarizedBookmark | null = null;
-  if (sections.fromTheArchives) {
-    console.log("  Summarizing archive pick");
-    fromTheArchives = await toSummarizedBookmark(provider, sections.fromTheArchives);
+    sections.push({ ...section, title, tag, bookmarks, roundup });
   }
 
-  console.log("AI summarization complete");
+  cache.save();
+  const cacheStats = cache.getStats();
+  logger.info(
+    `Summary cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses, ${cacheStats.writes} new entries`
+  );
+  const summaryProviders = countSummaryProviders(sections);
+  logger.info(
+    `Summaries by provider: ${Object.entries(summaryProviders)
+      .map(([name, count]) => `${name} ${count}`)
+      .join(", ")}`
+  );
+  logger.info("AI summarization complete");
 
   return {
-    recentlySaved,
-    buriedTreasure,
-    thisMonthLastYear,
-    tagRoundup,
-    randomPick,
-    fromTheArchives,
-    stats: sections.stats,
+    sections,
+    stats: { ...digest.stats, summaryProviders },
   };
 }
@@ -47,12 +47,62 @@ export interface KarakeepBookmarksResponse {
   nextCursor: string | null;
 }
 
+/**
+ * Karakeep tags list response
+ */
+export interface KarakeepTagsResponse {
+  tags: Array<{
+    id: string;
+    name: string;
+  }>;
+}
+
+/**
+ * Karakeep user owning the API key
+ */
+export interface KarakeepUser {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+/**
+ * Karakeep list structure
+ */
+export interface KarakeepList {
+  id: string;
+  name: string;
+  icon: string;
+  parentId: string | null;
+}
+
+/**
+ * Karakeep lists response
+ */
+export interface KarakeepListsResponse {
+  lists: KarakeepList[];
+}
+
+/**
+ * Which part of the library a digest covers
+ * Bookmarks matching the query, any list or any included tag are in scope (union),
+ * minus bookmarks carrying an excluded tag. No query/lists/tags = whole library.
+ */
+export interface DigestScope {
+  query?: string;
+  listIds: string[];
+  includeTags: string[];
+  excludeTags: string[];
+}
+
 /**
  * Internal bookmark representation
  */
 export interface Bookmark {
   id: string;
   url: string;
+  /** Original URL without tracking params, AMP or mobile hosts, for spotting duplicates */
+  canonicalUrl: string;
   title?: string;
   summary?: string;
   createdAt: Date;
@@ -100,63 +150,266 @@ export interface SummarizedBookmark extends Bookmark {
   aiSummary: string;
   daysAgo: number;
   readTime: number;
+  /** Provider that produced aiSummary (unset when it fell back to the bookmark's own text) */
+  summarizedBy?: string;
+}
+
+/**
+ * Where a section draws its candidate bookmarks from
+ */
+export type SectionSource = "unread" | "archived" | "favourites" | "all" | "list";
+
+/**
+ * How a section picks bookmarks from its candidates
+ */
+export type SelectionStrategy =
+  | "random"
+  | "weighted"
+  | "top-scored"
+  | "oldest"
+  | "spaced-repetition";
+
+/**
+ * Declarative definition of a digest section (see src/sections.ts for the schema and defaults)
+ */
+export interface SectionDefinition {
+  id: string;
+  /** For roundups, "{tag}" is replaced with the chosen tag */
+  title: string;
+  subtitle?: string;
+  emoji?: string;
+  /** "list" shows individual items; "roundup" groups a tag cluster with an AI synthesis */
+  type: "list" | "roundup";
+  source: SectionSource;
+  listId?: string;
+  minAgeDays?: number;
+  maxAgeDays?: number;
+  sameMonthLastYear: boolean;
+  includeTags: string[];
+  excludeTags: string[];
+  strategy: SelectionStrategy;
+  count: number;
+  /** Minimum bookmarks sharing a tag (or topic cluster) for a roundup to qualify */
+  minItems: number;
+  /** How roundups group bookmarks: by shared tag, or by topic using embeddings */
+  groupBy: "tag" | "embedding";
+}
+
+/**
+ * Bookmarks available to categorize, by source
+ */
+export interface BookmarkPools {
+  unread: Bookmark[];
+  archived: Bookmark[];
+  lists: Map<string, Bookmark[]>;
+  /** Bookmark embeddings by ID, for roundups grouped by topic */
+  embeddings?: Map<string, number[]>;
+  /** Review schedules by bookmark ID, for the spaced-repetition strategy */
+  reviews?: Map<string, ReviewState>;
+}
+
+/**
+ * A populated digest section
+ */
+export interface DigestSection {
+  id: string;
+  title: string;
+  subtitle?: string;
+  emoji?: string;
+  type: "list" | "roundup";
+  bookmarks: Bookmark[];
+  /** Tag the roundup was built around (or, for topic clusters, the generated label) */
+  tag?: string;
+  /** Roundup built from a topic cluster; labelled during summarization */
+  clustered?: boolean;
+  /** Picked by spaced repetition; items get review feedback links */
+  review?: boolean;
+}
+
+/**
+ * Complete digest sections structure
+ */
+export interface DigestSections {
+  sections: DigestSection[];
+  stats: {
+    totalUnread: number;
+    generatedAt: Date;
+  };
 }
 
 /**
- * Tag cluster with synthesis
+ * Tag cluster synthesis for a roundup section
  */
 export interface TagRoundup {
   tag: string;
-  bookmarks: SummarizedBookmark[];
   synthesis: {
     overview: string;
     keyInsights: string[];
     standout: string;
   };
+  /** Provider that produced the synthesis (unset for the fallback synthesis) */
+  synthesizedBy?: string;
 }
 
 /**
- * Complete digest sections structure
+ * A digest section with AI summaries
  */
-export interface DigestSections {
-  recentlySaved: Bookmark[];
-  buriedTreasure: Bookmark[];
-  thisMonthLastYear: Bookmark[];
-  tagRoundup: {
-    tag: string;
-    bookmarks: Bookmark[];
-  } | null;
-  randomPick: Bookmark | null;
-  fromTheArchives: Bookmark | null;
-  stats: {
-    totalUnread: number;
-    generatedAt: Date;
-  };
+export interface SummarizedSection extends Omit<DigestSection, "bookmarks"> {
+  bookmarks: SummarizedBookmark[];
+  roundup?: TagRoundup;
+}
+
+/**
+ * How a digest run ended: sent, skipped (nothing to send) or failed
+ */
+export type RunOutcome = "success" | "skipped" | "failure";
+
+/**
+ * Stage of a digest run, reported when a run fails
+ */
+export type DigestStage =
+  | "config"
+  | "fetch"
+  | "categorize"
+  | "summarize"
+  | "render"
+  | "deliver"
+  | "record"
+  | "writeback";
+
+/**
+ * The last digest run of a profile, as reported by the daemon's /status endpoint
+ */
+export interface RunStatus {
+  /** Correlation ID on every log line of the run */
+  runId?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationSeconds: number;
+  outcome: RunOutcome;
+  error?: string;
+  /** Stage a failed run stopped in */
+  stage?: DigestStage;
+  /** Items per section of the sent digest */
+  sections?: Array<{ id: string; title: string; items: number }>;
 }
 
 /**
  * Summarized digest ready for email rendering
  */
 export interface SummarizedDigest {
-  recentlySaved: SummarizedBookmark[];
-  buriedTreasure: SummarizedBookmark[];
-  thisMonthLastYear: SummarizedBookmark[];
-  tagRoundup: TagRoundup | null;
-  randomPick: SummarizedBookmark | null;
-  fromTheArchives: SummarizedBookmark | null;
+  sections: SummarizedSection[];
   stats: {
     totalUnread: number;
     generatedAt: Date;
+    /** Summaries and syntheses per provider ("fallback" = no LLM output) */
+    summaryProviders?: Record<string, number>;
   };
+  /** "Your Library" statistics, if LIBRARY_STATS is enabled */
+  library?: LibraryStats;
+  /** Titles of sections left out because their bookmarks couldn't be fetched */
+  unavailableSections?: string[];
+}
+
+/**
+ * Library counts recorded with each digest, for trends
+ */
+export interface LibrarySnapshot {
+  takenAt: string;
+  unread: number;
+  archived: number;
+  /**
+   * IDs of the archived bookmarks, kept on the latest snapshot only to tell which bookmarks the
+   * next digest finds newly archived
+   */
+  archivedIds?: string[];
+}
+
+/**
+ * Name with a bookmark count, e.g. a domain or tag
+ */
+export interface NamedCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * Statistics about the whole library for the "Your Library" section
+ */
+export interface LibraryStats {
+  unread: number;
+  archived: number;
+  /** Bookmarks saved since the previous digest (or in the last week, for the first one) */
+  savedSinceLast: number;
+  /**
+   * Bookmarks archived since the previous digest; unknown for the first one (or if the previous
+   * snapshot predates archived IDs being recorded)
+   */
+  archivedSinceLast?: number;
+  /** Unread backlog at each digest in the trend window, oldest first, ending with now */
+  backlogTrend: LibrarySnapshot[];
+  /** Most saved domains and tags within the trend window */
+  topDomains: NamedCount[];
+  topTags: NamedCount[];
+  oldestUnread?: { id: string; title: string; daysAgo: number };
+  /** Estimated minutes to read the unread bookmarks that have text content */
+  backlogReadMinutes: number;
+}
+
+/**
+ * A previously sent digest, as recorded in the persistent history store
+ */
+export interface DigestHistoryEntry {
+  sentAt: string;
+  bookmarkIds: string[];
+}
+
+/**
+ * One-click action available from a digest email
+ */
+export type BookmarkAction = "archive" | "favourite" | "snooze" | ReviewGrade;
+
+/**
+ * Feedback on a bookmark resurfaced by spaced repetition
+ */
+export type ReviewGrade = "remembered" | "forgotten";
+
+/**
+ * Spaced-repetition schedule of a bookmark
+ */
+export interface ReviewState {
+  /** Times shown since it was last forgotten */
+  repetitions: number;
+  intervalDays: number;
+  /** Interval multiplier, lowered each time it is forgotten */
+  ease: number;
+  lastShownAt: string;
+  dueAt: string;
+  /** Feedback given since it was last shown */
+  lastGrade?: ReviewGrade;
 }
 
 /**
  * LLM provider interface for abstraction
  */
 export interface LLMProvider {
+  /** Provider and model identifier, e.g. "anthropic/claude-haiku-4-5" */
+  readonly name: string;
+  /** Approximate tokens of content to send per call; longer content is chunked */
+  readonly chunkTokens: number;
   complete(prompt: string, maxTokens: number): Promise<string>;
 }
 
+/**
+ * Embedding provider interface, for grouping bookmarks by topic
+ */
+export interface EmbeddingProvider {
+  /** Provider and model identifier, e.g. "ollama/nomic-embed-text" */
+  readonly name: string;
+  /** One vector per text, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
 /**
  * Single article summary response from LLM
  */
@@ -172,3 +425,10 @@ export interface ClusterSynthesisResponse {
   keyInsights: string[];
   standout: string;
 }
+
+/**
+ * Topic cluster label response from LLM
+ */
+export interface ClusterLabelResponse {
+  label: string;
+}
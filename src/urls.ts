@@ -0,0 +1,92 @@
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "mkt_tok",
+  "_hsenc",
+  "_hsmi",
+  "ref_src",
+  "ref_url",
+  "amp",
+]);
+const TRACKING_PARAM_PREFIXES = ["utm_", "pk_", "hsa_"];
+
+// "ref" often means something (e.g. a GitHub branch), so it is only tracking when its value is
+// the referring site, like ?ref=news.ycombinator.com or ?ref=https://example.com/
+const REFERRER_VALUE_PATTERN = /^(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:[/:?#].*)?$/i;
+
+// Host prefixes for the same site's mobile and AMP editions
+const EDITION_HOST_PATTERN = /^(?:www|m|mobile|amp)\./;
+
+/**
+ * Unwrap AMP cache URLs to the publisher's URL:
+ * google.com/amp/s/example.com/a and example-com.cdn.ampproject.org/c/s/example.com/a
+ */
+function unwrapAmpCache(url: URL): URL {
+  const isGoogleAmp =
+    /(^|\.)google\.[a-z.]+$/.test(url.hostname) && url.pathname.startsWith("/amp/");
+  const isAmpProject = url.hostname.endsWith(".cdn.ampproject.org");
+  if (!isGoogleAmp && !isAmpProject) {
+    return url;
+  }
+
+  // "/s/" marks an https origin
+  const match = url.pathname.match(/^\/(?:amp|[a-z])\/(s\/)?(.+)$/);
+  if (!match) {
+    return url;
+  }
+
+  try {
+    return new URL(`${match[1] ? "https" : "http"}://${match[2]}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Check whether a query parameter only tracks where a click came from
+ */
+function isTrackingParam(name: string, value: string): boolean {
+  const lower = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix)) ||
+    (lower === "ref" && REFERRER_VALUE_PATTERN.test(value))
+  );
+}
+
+/**
+ * Canonical form of a URL, for spotting the same page saved twice
+ * Strips tracking parameters, the fragment, trailing slashes, AMP paths and www/mobile/AMP hosts,
+ * and ignores the scheme. Returns the trimmed input if it isn't a valid URL
+ */
+export function canonicalizeUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = unwrapAmpCache(new URL(raw.trim()));
+  } catch {
+    return raw.trim();
+  }
+
+  const host = url.hostname.toLowerCase().replace(EDITION_HOST_PATTERN, "");
+  const port = url.port ? `:${url.port}` : "";
+
+  const path = url.pathname
+    .replace(/\/amp(?:\.html)?\/?$/, "")
+    .replace(/\/index\.html?$/, "")
+    .replace(/\/+$/, "");
+
+  const params = [...url.searchParams]
+    .filter(([name, value]) => !isTrackingParam(name, value))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : "";
+
+  return `${host}${port}${path}${query}`;
+}
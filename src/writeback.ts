@@ -0,0 +1,144 @@
+import { collectSectionBookmarks } from "./categorizer.js";
+import { config } from "./config.js";
+import {
+  addBookmarkToList,
+  attachTags,
+  createList,
+  fetchListBookmarkIds,
+  fetchLists,
+  updateBookmark,
+} from "./karakeep.js";
+import { logger } from "./logger.js";
+import type { DigestHistoryEntry, KarakeepList, SummarizedDigest } from "./types.js";
+
+const NOTE_PREFIX = "AI summary: ";
+
+/**
+ * Find the write-back list by ID or name, creating it if it doesn't exist
+ * Returns null in dry-run mode when the list would have to be created
+ */
+async function resolveList(nameOrId: string, dryRun: boolean): Promise<KarakeepList | null> {
+  const lists = await fetchLists();
+  const existing = lists.find((l) => l.id === nameOrId || l.name === nameOrId);
+
+  if (existing) {
+    return existing;
+  }
+
+  if (dryRun) {
+    logger.info(`  [dry-run] Would create list "${nameOrId}"`);
+    return null;
+  }
+
+  logger.info(`  Creating list "${nameOrId}"`);
+  return createList(nameOrId);
+}
+
+/**
+ * The bookmark's note with its "AI summary:" paragraph set to this summary, replacing any
+ * earlier one (e.g. from before a model switch) instead of adding another
+ */
+function noteWithSummary(note: string | undefined, summary: string): string {
+  const paragraph = `${NOTE_PREFIX}${summary}`;
+  const paragraphs = note ? note.split("\n\n") : [];
+  const index = paragraphs.findIndex((p) => p.startsWith(NOTE_PREFIX));
+
+  if (index === -1) {
+    paragraphs.push(paragraph);
+  } else {
+    paragraphs[index] = paragraph;
+  }
+  return paragraphs.join("\n\n");
+}
+
+/**
+ * Mark digested bookmarks in Karakeep: attach a tag, add to a list and/or store the AI summary
+ * Every step checks current state first, so nothing is tagged, listed or noted twice.
+ * Failures are logged per bookmark and never fail the run (the email has already gone out).
+ */
+export async function writeBackDigest(
+  digest: SummarizedDigest,
+  sent: DigestHistoryEntry
+): Promise<void> {
+  const { writebackTag, writebackList, writebackSummary, writebackDryRun: dryRun } = config;
+
+  if (!writebackTag && !writebackList && writebackSummary === "none") {
+    return;
+  }
+
+  const prefix = dryRun ? "[dry-run] Would " : "";
+  const bookmarks = collectSectionBookmarks(digest.sections);
+  logger.info(
+    `Writing back ${bookmarks.length} bookmarks to Karakeep${dryRun ? " (dry run)" : ""}`
+  );
+
+  // YYYY-MM-DD in local time of the digest's history entry, e.g. "digest:2026-10-19"
+  const tagName = writebackTag?.replace(
+    "{date}",
+    new Date(sent.sentAt).toLocaleDateString("en-CA")
+  );
+
+  let list: KarakeepList | null = null;
+  let listMembers = new Set<string>();
+  if (writebackList) {
+    try {
+      list = await resolveList(writebackList, dryRun);
+      if (list) {
+        listMembers = await fetchListBookmarkIds(list.id);
+      }
+    } catch (error) {
+      logger.warn(`  Failed to resolve list "${writebackList}"`, { error });
+    }
+  }
+
+  let changed = 0;
+  let failed = 0;
+
+  for (const bookmark of bookmarks) {
+    const actions: string[] = [];
+
+    try {
+      if (tagName && !bookmark.tags.some((t) => t.name === tagName)) {
+        if (!dryRun) await attachTags(bookmark.id, [tagName]);
+        actions.push(`tag "${tagName}"`);
+      }
+
+      if (list && !listMembers.has(bookmark.id)) {
+        if (!dryRun) await addBookmarkToList(list.id, bookmark.id);
+        actions.push(`add to "${list.name}"`);
+      }
+
+      // Fallback summaries are the bookmark's own title or excerpt, not worth storing
+      const aiSummary = bookmark.summarizedBy ? bookmark.aiSummary : undefined;
+
+      if (writebackSummary === "summary" && aiSummary && bookmark.summary !== aiSummary) {
+        if (!dryRun) await updateBookmark(bookmark.id, { summary: aiSummary });
+        actions.push("set summary");
+      }
+
+      if (writebackSummary === "note" && aiSummary) {
+        const note = noteWithSummary(bookmark.note, aiSummary);
+        if (note !== (bookmark.note ?? "")) {
+          if (!dryRun) await updateBookmark(bookmark.id, { note });
+          actions.push("update note");
+        }
+      }
+    } catch (error) {
+      failed++;
+      logger.warn(`  Write-back failed for "${bookmark.title}"`, {
+        bookmarkId: bookmark.id,
+        error,
+      });
+      continue;
+    }
+
+    if (actions.length > 0) {
+      changed++;
+      logger.info(`  ${prefix}${actions.join(", ")}: ${bookmark.title}`);
+    }
+  }
+
+  logger.info(
+    `Write-back complete: ${changed} updated, ${bookmarks.length - changed - failed} already up to date, ${failed} failed`
+  );
+}
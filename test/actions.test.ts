@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { rmSync } from "node:fs";
+import { after, describe, it } from "node:test";
+import { createActionToken, verifyActionToken } from "../src/actions.js";
+import { runWithProfile } from "../src/config.js";
+import { makeTestProfile } from "./support/config.js";
+
+const signer = makeTestProfile({ actionsSecret: "a-secret-of-sixteen-plus" });
+const otherSigner = makeTestProfile({ actionsSecret: "another-secret-entirely" });
+const inFuture = new Date(Date.now() + 60_000);
+
+const create = (...args: Parameters<typeof createActionToken>) =>
+  runWithProfile(signer, () => createActionToken(...args));
+const verify = (token: string) => runWithProfile(signer, () => verifyActionToken(token));
+
+describe("action tokens", () => {
+  after(() => {
+    for (const p of [signer, otherSigner])
+      rmSync(p.config.dataDir, { recursive: true, force: true });
+  });
+
+  it("round-trip the bookmark, action and profile", () => {
+    const payload = verify(create("bookmark-1", "archive", inFuture, "home"));
+
+    assert.deepEqual(payload, {
+      id: "bookmark-1",
+      action: "archive",
+      exp: inFuture.getTime(),
+      profile: "home",
+    });
+  });
+
+  it("reject expired tokens", () => {
+    assert.equal(verify(create("bookmark-1", "archive", new Date(Date.now() - 1))), null);
+  });
+
+  it("reject tokens signed with another secret", () => {
+    const token = runWithProfile(otherSigner, () =>
+      createActionToken("bookmark-1", "archive", inFuture)
+    );
+    assert.equal(verify(token), null);
+  });
+
+  it("reject a tampered payload or signature", () => {
+    const [payload, signature] = create("bookmark-1", "archive", inFuture).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ id: "bookmark-2", action: "archive", exp: inFuture.getTime() })
+    ).toString("base64url");
+    const flipped = `${signature.slice(0, -1)}${signature.endsWith("A") ? "B" : "A"}`;
+
+    assert.equal(verify(`${forged}.${signature}`), null);
+    assert.equal(verify(`${payload}.${flipped}`), null);
+    assert.equal(verify(`${payload}.${signature}x`), null);
+  });
+
+  it("reject malformed tokens and unknown actions", () => {
+    for (const token of ["", "no-dot", ".signature", "payload."]) {
+      assert.equal(verify(token), null, token);
+    }
+
+    const unknown = create("bookmark-1", "delete" as "archive", inFuture);
+    assert.equal(verify(unknown), null);
+  });
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { splitIntoChunks, tokensToChars } from "../src/chunking.js";
+
+describe("splitIntoChunks", () => {
+  it("returns no chunks for empty or blank text", () => {
+    assert.deepEqual(splitIntoChunks("", 100), []);
+    assert.deepEqual(splitIntoChunks(" \n\n \n\n\t", 100), []);
+  });
+
+  it("keeps short text as one chunk", () => {
+    assert.deepEqual(splitIntoChunks("One.\n\nTwo.", 100), ["One.\n\nTwo."]);
+  });
+
+  it("breaks between paragraphs without exceeding the limit", () => {
+    const paragraphs = ["a".repeat(40), "b".repeat(40), "c".repeat(40)];
+    const chunks = splitIntoChunks(paragraphs.join("\n\n"), 90);
+
+    assert.deepEqual(chunks, [`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+  });
+
+  it("splits oversized paragraphs on sentences and hard-cuts oversized sentences", () => {
+    const text = `${"First sentence here. ".repeat(5)}${"x".repeat(120)}`;
+    const chunks = splitIntoChunks(text, 50);
+
+    assert.ok(chunks.length > 3);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length > 0 && chunk.length <= 50, JSON.stringify(chunk));
+    }
+    assert.equal(chunks.join("").replace(/\s/g, "").length, text.replace(/\s/g, "").length);
+  });
+});
+
+describe("tokensToChars", () => {
+  it("budgets four characters per token", () => {
+    assert.equal(tokensToChars(1000), 4000);
+  });
+});
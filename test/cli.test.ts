@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { sampleLibrary } from "./support/fixtures.js";
+import { MOCK_API_KEY, MockKarakeepServer } from "./support/karakeep-server.js";
+import { FakeOpenAIServer } from "./support/openai-server.js";
+import { SmtpCapture } from "./support/smtp-capture.js";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+interface CliResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the CLI in its own process with only these environment variables (and PATH),
+ * so the exit code is the one a script or container would see
+ */
+function runCli(args: string[], env: Record<string, string>): Promise<CliResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", "src/index.ts", ...args], {
+      cwd: ROOT,
+      env: { PATH: process.env.PATH, ...env },
+      timeout: 60_000,
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code, stdout, stderr }));
+  });
+}
+
+describe("CLI", () => {
+  const karakeep = new MockKarakeepServer(sampleLibrary());
+  const llm = new FakeOpenAIServer();
+  const smtp = new SmtpCapture();
+  let dataDir: string;
+  let env: Record<string, string>;
+
+  before(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), "karakeep-digest-cli-"));
+    env = {
+      KARAKEEP_URL: await karakeep.start(),
+      KARAKEEP_API_KEY: MOCK_API_KEY,
+      LLM_PROVIDER: "openai",
+      OPENAI_BASE_URL: await llm.start(),
+      OPENAI_MODEL: "fake-model",
+      SMTP_HOST: "127.0.0.1",
+      SMTP_PORT: String(await smtp.start()),
+      SMTP_SECURE: "false",
+      SMTP_USER: "digest",
+      SMTP_PASS: "secret",
+      EMAIL_FROM: "digest@example.com",
+      EMAIL_TO: "someone-else@example.com",
+      DATA_DIR: join(dataDir, "from-env"),
+    };
+  });
+
+  after(async () => {
+    await Promise.all([karakeep.stop(), llm.stop(), smtp.stop()]);
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("sends the digest and exits 0, with flags overriding the environment", async () => {
+    const result = await runCli(
+      ["send", "--to", "reader@example.com", "--data-dir", join(dataDir, "from-flag")],
+      env
+    );
+
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(smtp.messages.length, 1);
+    assert.deepEqual(smtp.messages[0].to, ["reader@example.com"]);
+    assert.match(smtp.messages[0].text!, /Fake summary of/);
+    assert.ok(readdirSync(join(dataDir, "from-flag")).includes("digest-history.json"));
+    assert.deepEqual(readdirSync(dataDir), ["from-flag"]);
+  });
+
+  it("sends by default, as RUN_MODE=cli did", async () => {
+    const sent = smtp.messages.length;
+    const result = await runCli([], { ...env, DATA_DIR: join(dataDir, "default") });
+
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(smtp.messages.length, sent + 1);
+  });
+
+  it("checks Karakeep, the LLM and SMTP and exits 0 when all pass", async () => {
+    const result = await runCli(["check"], env);
+
+    assert.equal(result.code, 0, result.stdout);
+    assert.match(result.stdout, /✓ Karakeep: authenticated as Test User/);
+    assert.match(result.stdout, /✓ LLM openai\/fake-model: reachable/);
+    assert.match(result.stdout, /✓ SMTP: connected/);
+  });
+
+  it("exits 1 when Karakeep is unreachable", async () => {
+    const unreachable = { ...env, KARAKEEP_URL: "http://127.0.0.1:1" };
+    const check = await runCli(["check"], unreachable);
+    const send = await runCli(["send"], unreachable);
+
+    assert.equal(check.code, 1);
+    assert.match(check.stdout, /✗ Karakeep:/);
+    assert.equal(send.code, 1);
+  });
+
+  it("exits 2 for an unknown command, unknown flag or missing argument", async () => {
+    for (const args of [["publish"], ["send", "--verbose"], ["summarize"]]) {
+      const result = await runCli(args, env);
+      assert.equal(result.code, 2, args.join(" "));
+      assert.match(result.stderr, /Usage: karakeep-digest/);
+    }
+
+    const runMode = await runCli([], { ...env, RUN_MODE: "sometimes" });
+    assert.equal(runMode.code, 2);
+    assert.match(runMode.stderr, /Unknown RUN_MODE "sometimes"/);
+  });
+
+  it("exits 3 for invalid configuration, from the environment or a flag", async () => {
+    const badEnv = await runCli(["send"], { ...env, KARAKEEP_URL: "not a url" });
+    const badFlag = await runCli(["send", "--channels", "carrier-pigeon"], env);
+
+    assert.equal(badEnv.code, 3);
+    assert.match(badEnv.stdout + badEnv.stderr, /karakeepUrl/);
+    assert.equal(badFlag.code, 3);
+    assert.match(badFlag.stdout + badFlag.stderr, /deliveryChannels/);
+  });
+
+  it("prints usage and exits 0 for --help", async () => {
+    const result = await runCli(["--help"], {});
+
+    assert.equal(result.code, 0);
+    assert.match(result.stdout, /Exit codes: 0 success, 1 failure, 2 invalid usage/);
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { clusterByEmbedding } from "../src/clustering.js";
+
+// Three topics along different axes, each item slightly off its axis
+const topics: [string, number[]][] = [
+  ["rust", [1, 0, 0]],
+  ["cooking", [0, 1, 0]],
+  ["travel", [0, 0, 1]],
+];
+
+const items = topics.flatMap(([topic], t) =>
+  [0, 1, 2, 3].map((i) => ({ id: `${topic}-${i}`, topic, t, i }))
+);
+const embeddings = new Map(
+  items.map(({ id, t, i }) => {
+    const vector = topics[t][1].map((v) => v * 5);
+    vector[(t + 1) % 3] = i * 0.3;
+    return [id, vector];
+  })
+);
+
+describe("clusterByEmbedding", () => {
+  it("groups items by topic, most coherent cluster first", () => {
+    const clusters = clusterByEmbedding(items, embeddings, 3);
+
+    assert.equal(clusters.length, 3);
+    for (const cluster of clusters) {
+      assert.equal(cluster.items.length, 4);
+      assert.equal(new Set(cluster.items.map((item) => item.topic)).size, 1);
+      assert.ok(cluster.cohesion > 0.95 && cluster.cohesion <= 1);
+    }
+    const cohesions = clusters.map((c) => c.cohesion);
+    assert.deepEqual(
+      cohesions,
+      [...cohesions].sort((a, b) => b - a)
+    );
+  });
+
+  it("leaves out items without an embedding and never makes more clusters than items", () => {
+    const unembedded = { id: "no-vector", topic: "none", t: -1, i: 0 };
+    const clusters = clusterByEmbedding([...items.slice(0, 2), unembedded], embeddings, 5);
+
+    assert.equal(clusters.length, 2);
+    assert.ok(clusters.every((c) => c.items.every((item) => item.id !== "no-vector")));
+    assert.deepEqual(clusterByEmbedding([unembedded], embeddings, 3), []);
+  });
+});
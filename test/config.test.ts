@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { loadProfiles, type RawConfig } from "../src/config.js";
+
+describe("loadProfiles", () => {
+  const dir = mkdtempSync(join(tmpdir(), "karakeep-digest-profiles-"));
+
+  const load = (profiles: object[], settings: RawConfig = {}) => {
+    const path = join(dir, "profiles.json");
+    writeFileSync(path, JSON.stringify({ profiles }));
+    const env: RawConfig = {
+      karakeepUrl: "http://127.0.0.1:1",
+      karakeepApiKey: "karakeep-key-1234",
+      anthropicApiKey: "anthropic-key-1234",
+      deliveryChannels: "feed",
+      emailTo: "family@example.com",
+      slackWebhookUrl: "https://hooks.slack.com/services/T0/B0/family",
+      dataDir: dir,
+      profilesConfig: path,
+      ...settings,
+    };
+    return loadProfiles(env);
+  };
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("inherits the environment and overrides what differs", () => {
+    const [home, work] = load([{ name: "home" }, { name: "work", emailTo: "me@work.example" }]);
+
+    assert.equal(home.config.emailTo, "family@example.com");
+    assert.equal(work.config.emailTo, "me@work.example");
+    assert.equal(work.config.slackWebhookUrl, "https://hooks.slack.com/services/T0/B0/family");
+    assert.equal(work.config.dataDir, join(dir, "profiles", "work"));
+  });
+
+  it('clears an inherited value set to ""', () => {
+    const [work] = load([{ name: "work", emailTo: "", slackWebhookUrl: "", priorityTags: [] }]);
+
+    assert.equal(work.config.emailTo, undefined);
+    assert.equal(work.config.slackWebhookUrl, undefined);
+    assert.equal(work.config.priorityTags, "");
+  });
+
+  it("rejects profiles that would write the same feed", () => {
+    const feedPath = join(dir, "feed.xml");
+    const profiles = [{ name: "home" }, { name: "work" }];
+
+    assert.throws(() => load(profiles, { feedPath }), {
+      name: "ConfigError",
+      message: /"home" and "work" share the feed/,
+    });
+    assert.throws(() =>
+      load([
+        { name: "home", feedPath },
+        { name: "work", feedPath },
+      ])
+    );
+
+    const [home, work] = load([{ name: "home" }, { name: "work", feedPath }]);
+    assert.equal(home.config.feedPath, undefined);
+    assert.equal(work.config.feedPath, feedPath);
+
+    // Only one of them delivers to the feed
+    const feedAndSlack = [{ name: "home" }, { name: "work", deliveryChannels: "slack" }];
+    assert.equal(load(feedAndSlack, { feedPath }).length, 2);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeEntities, extractReadableText, getReadableContent } from "../src/content.js";
+import { makeDigestBookmark } from "./support/fixtures.js";
+
+const PROSE = "This is the article's own text, long enough to be the main content. ".repeat(10);
+
+describe("extractReadableText", () => {
+  it("keeps the article and drops scripts, navigation and link-heavy blocks", () => {
+    const html = `<html><head><title>T</title><style>p { color: red }</style></head><body>
+      <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+      <script>trackVisitor()</script>
+      <article><h1>Headline</h1><p>${PROSE}</p>
+        <div><a href="/1">Related one</a> <a href="/2">Related two</a></div>
+      </article>
+      <footer>Copyright</footer>
+    </body></html>`;
+    const text = extractReadableText(html);
+
+    assert.match(text, /^Headline\n\nThis is the article's own text/);
+    assert.doesNotMatch(text, /Home|trackVisitor|color: red|Related|Copyright/);
+  });
+
+  it("falls back to <main> when <article> is only a teaser", () => {
+    const html = `<body><article><p>Teaser</p></article><main><p>${PROSE}</p></main></body>`;
+    assert.equal(extractReadableText(html), PROSE.trim());
+  });
+
+  it("turns list items into bullets and decodes entities", () => {
+    const html =
+      "<div><p>Fish &amp; chips&nbsp;&#8212; &#x1F600;</p><ul><li>One</li><li>Two</li></ul></div>";
+    assert.equal(extractReadableText(html), "Fish & chips — 😀\n\n- One\n\n- Two");
+  });
+
+  it("re-joins hyphenated and hard-wrapped lines in plain text", () => {
+    const text = "A para-\ngraph that was\nwrapped.\n\n- a list item\n- another";
+    assert.equal(
+      extractReadableText(text),
+      "A paragraph that was wrapped.\n\n- a list item\n- another"
+    );
+  });
+
+  it("returns nothing for raw PDF data", () => {
+    assert.equal(extractReadableText("%PDF-1.7\n%binary"), "");
+  });
+});
+
+describe("decodeEntities", () => {
+  it("leaves unknown and out-of-range entities alone", () => {
+    assert.equal(decodeEntities("&unknown; &#x110000; &lt;b&gt;"), "&unknown; &#x110000; <b>");
+  });
+});
+
+describe("getReadableContent", () => {
+  it("prefers the fetched asset, then inline HTML, then inline text", () => {
+    const bookmark = makeDigestBookmark("a", {
+      content: { type: "link", htmlContent: "<p>Inline HTML</p>", text: "Inline text" },
+    });
+
+    assert.equal(getReadableContent(bookmark, "<p>Fetched</p>"), "Fetched");
+    assert.equal(getReadableContent(bookmark, "%PDF-1.4"), "Inline HTML");
+    assert.equal(
+      getReadableContent({ ...bookmark, content: { type: "link", text: "Inline text" } }, null),
+      "Inline text"
+    );
+    assert.equal(getReadableContent({ ...bookmark, content: { type: "asset" } }), "");
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { rmSync } from "node:fs";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { runWithProfile } from "../src/config.js";
+import { createChannels, type RenderedDigest } from "../src/delivery.js";
+import type { SummarizedDigest } from "../src/types.js";
+import { makeTestProfile } from "./support/config.js";
+import { makeDigestBookmark } from "./support/fixtures.js";
+import { WebhookCapture } from "./support/webhook-capture.js";
+
+interface DiscordMessage {
+  content?: string;
+  embeds: { title: string; description: string }[];
+}
+
+interface SlackMessage {
+  text: string;
+  blocks: { type: string; text?: { text: string } }[];
+}
+
+/**
+ * A digest of `sectionCount` sections with `itemsPerSection` long-summary items each
+ */
+function makeDigest(sectionCount: number, itemsPerSection: number): SummarizedDigest {
+  return {
+    sections: Array.from({ length: sectionCount }, (_, s) => ({
+      id: `section-${s}`,
+      title: `Section ${s}`,
+      type: "list" as const,
+      bookmarks: Array.from({ length: itemsPerSection }, (_, i) => ({
+        ...makeDigestBookmark(`b-${s}-${i}`),
+        aiSummary: "A summary sentence that goes on for a while. ".repeat(8),
+        daysAgo: 3,
+        readTime: 5,
+      })),
+    })),
+    stats: { totalUnread: sectionCount * itemsPerSection, generatedAt: new Date() },
+  };
+}
+
+describe("delivery channels", () => {
+  const webhook = new WebhookCapture();
+  let url: string;
+
+  const deliver = async (channel: "discord" | "slack", digest: SummarizedDigest) => {
+    const profile = makeTestProfile({
+      deliveryChannels: channel,
+      discordWebhookUrl: url,
+      slackWebhookUrl: url,
+    });
+    const rendered: RenderedDigest = { digest, html: "<p>Digest</p>", plainText: "Digest" };
+    try {
+      return await runWithProfile(profile, () => createChannels()[0].deliver(rendered));
+    } finally {
+      rmSync(profile.config.dataDir, { recursive: true, force: true });
+    }
+  };
+
+  before(async () => {
+    url = await webhook.start();
+  });
+
+  beforeEach(() => {
+    webhook.requests.length = 0;
+  });
+
+  after(() => webhook.stop());
+
+  it("splits a large digest over Discord messages within its embed limits", async () => {
+    const reference = await deliver("discord", makeDigest(14, 12));
+    const messages = webhook.requests.map((r) => r.body as DiscordMessage);
+
+    assert.ok(messages.length > 1);
+    assert.equal(reference, messages.map((_, i) => `message-${i + 1}`).join(", "));
+    assert.match(messages[0].content!, /Your Weekly Karakeep Digest/);
+    assert.ok(messages.slice(1).every((m) => m.content === undefined));
+    for (const { embeds } of messages) {
+      assert.ok(embeds.length <= 10);
+      const chars = embeds.reduce((sum, e) => sum + e.title.length + e.description.length, 0);
+      assert.ok(chars <= 6000, `${chars} characters`);
+      assert.ok(embeds.every((e) => e.description.length <= 4096));
+    }
+    assert.deepEqual(
+      messages.flatMap((m) => m.embeds.map((e) => e.title)),
+      Array.from({ length: 14 }, (_, s) => `Section ${s}`)
+    );
+    assert.ok(webhook.requests.every((r) => r.url === "/webhook?wait=true"));
+  });
+
+  it("escapes Slack control characters and keeps section blocks within 3000 characters", async () => {
+    const digest = makeDigest(1, 1);
+    const [section] = digest.sections;
+    section.bookmarks[0].title = "Tips & <Tricks> | more";
+    Object.assign(section, {
+      type: "roundup",
+      roundup: {
+        tag: "rust",
+        synthesis: {
+          overview: "An overview that keeps going. ".repeat(150),
+          keyInsights: ["One"],
+          standout: "Two",
+        },
+      },
+    });
+
+    await deliver("slack", digest);
+    const { blocks } = webhook.requests[0].body as SlackMessage;
+    const texts = blocks.filter((b) => b.type === "section").map((b) => b.text!.text);
+
+    assert.ok(texts.every((text) => text.length <= 3000));
+    assert.match(texts[0], /^\*Section 0\*\nAn overview/);
+    assert.match(texts[1], /\|Tips &amp; &lt;Tricks&gt; \| more>\*/);
+  });
+});
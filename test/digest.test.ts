@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { getRunId, runWithRunId } from "../src/logger.js";
+import { defaultScript } from "./support/fake-llm.js";
+import { makeBookmark, sampleLibrary } from "./support/fixtures.js";
+import { type Harness, startHarness } from "./support/harness.js";
+import { MOCK_API_KEY } from "./support/karakeep-server.js";
+
+describe("generateAndSendDigest", () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    await harness?.stop();
+    harness = undefined;
+  });
+
+  it("emails a digest built from every page of bookmarks", async () => {
+    harness = await startHarness({ bookmarks: sampleLibrary() });
+    await harness.run();
+
+    assert.equal(harness.smtp.messages.length, 1);
+    const [mail] = harness.smtp.messages;
+    assert.equal(mail.user, "digest");
+    assert.deepEqual(mail.to, ["reader@example.com"]);
+    assert.match(mail.headers.subject, /^Your Weekly Karakeep Digest/);
+
+    for (const body of [mail.html!, mail.text!]) {
+      assert.match(body, /Hot Off the Press/i);
+      assert.match(body, /Buried Treasure/i);
+      assert.match(body, /rust Roundup/i);
+      assert.match(body, /From the Archives/i);
+      assert.match(body, /Fake summary of An Archived Gem/);
+      assert.match(body, /Fake overview of the roundup\./);
+    }
+
+    // 13 unread bookmarks at 2 per page
+    const pages = harness.karakeep.requests.filter((r) => r.includes("archived=false"));
+    assert.equal(pages.length, 7);
+    assert.match(pages[6], /cursor=12/);
+
+    assert.ok(existsSync(join(harness.config.dataDir, "digest-history.json")));
+  });
+
+  it("retries Karakeep rate limits and server errors", async () => {
+    harness = await startHarness({ bookmarks: sampleLibrary() });
+    harness.karakeep.failNext(429, 503);
+    await harness.run();
+
+    assert.equal(harness.smtp.messages.length, 1);
+    // The first page is requested three times, then the other six pages once each
+    assert.equal(harness.karakeep.requests.filter((r) => r.includes("archived=false")).length, 9);
+  });
+
+  it("searches a scoped digest's bookmarks once for unread and archived sections", async () => {
+    harness = await startHarness({
+      bookmarks: [
+        ...sampleLibrary(),
+        makeBookmark("archived-rust", { title: "Rust Archived", daysOld: 200, archived: true }),
+      ],
+      settings: { digestQuery: "rust" },
+    });
+    const digest = await harness.run();
+
+    // 10 matches at 2 per page, fetched once; the unscoped endpoint isn't used at all
+    const searches = harness.karakeep.requests.filter((r) => r.includes("/bookmarks/search"));
+    assert.equal(searches.length, 5);
+    assert.ok(!harness.karakeep.requests.some((r) => r.includes("archived=")));
+
+    const ids = digest!.sections.flatMap((s) => s.bookmarks.map((b) => b.id));
+    assert.ok(ids.includes("archived-rust"));
+    assert.ok(ids.every((id) => id.includes("rust")));
+  });
+
+  it("fails the run when Karakeep keeps failing", async () => {
+    harness = await startHarness({ bookmarks: sampleLibrary() });
+    harness.karakeep.failNext(500, 500, 500);
+
+    await assert.rejects(harness.run(), /Server error: 500/);
+    assert.equal(harness.smtp.messages.length, 0);
+  });
+
+  it("sends the digest without sections whose bookmarks can't be fetched", async () => {
+    harness = await startHarness({
+      bookmarks: sampleLibrary(),
+      settings: { libraryStats: "true" },
+    });
+    harness.karakeep.failMatching("archived=true", 500);
+    const digest = await harness.run();
+
+    assert.equal(harness.smtp.messages.length, 1);
+    assert.deepEqual(digest?.unavailableSections, [
+      "Throwback: One Year Ago",
+      "From the Archives",
+      "Your Library",
+    ]);
+    assert.equal(digest?.library, undefined);
+
+    const [mail] = harness.smtp.messages;
+    for (const body of [mail.html!, mail.text!]) {
+      assert.match(body, /Hot Off the Press/i);
+      assert.doesNotMatch(body, /An Archived Gem/);
+      assert.match(body, /Some sections are unavailable this time: Throwback: One Year Ago, From/);
+    }
+  });
+
+  it("alerts the admin with the stage and run ID when the run fails", async () => {
+    harness = await startHarness({
+      bookmarks: sampleLibrary(),
+      settings: { alertEmail: "admin@example.com" },
+    });
+    harness.karakeep.failNext(500, 500, 500);
+
+    let runId: string | undefined;
+    await assert.rejects(
+      runWithRunId(() => {
+        runId = getRunId();
+        return harness!.run();
+      }),
+      { name: "DigestError", stage: "fetch", message: /Server error: 500/ }
+    );
+
+    assert.equal(harness.smtp.messages.length, 1);
+    const [alert] = harness.smtp.messages;
+    assert.deepEqual(alert.to, ["admin@example.com"]);
+    assert.match(alert.text!, /^Karakeep Digest failed for "test" \(fetch\)/);
+    assert.match(alert.text!, /Stage: fetch/);
+    assert.match(alert.text!, /Error: Server error: 500/);
+    assert.match(alert.text!, new RegExp(`Run ID: ${runId}`));
+  });
+
+  it("repairs an invalid LLM response and falls back when the LLM keeps failing", async () => {
+    harness = await startHarness({
+      bookmarks: [
+        makeBookmark("unread-1", { title: "Garbled Answer" }),
+        makeBookmark("archived-1", { title: "Provider Down", archived: true }),
+      ],
+      script: (prompt) => {
+        if (prompt.includes("Title: Garbled Answer")) return "Sorry, I can't do that.";
+        if (prompt.includes("Title: Provider Down")) throw new Error("Overloaded");
+        return defaultScript(prompt);
+      },
+    });
+    await harness.run();
+
+    const [mail] = harness.smtp.messages;
+    assert.ok(harness.llm.prompts.some((p) => p.includes("Sorry, I can't do that.")));
+    assert.match(mail.text!, /Garbled Answer[\s\S]*Fake summary of an article/);
+    assert.match(mail.text!, /Provider Down/);
+    assert.doesNotMatch(mail.text!, /Fake summary of Provider Down/);
+  });
+
+  it("picks the same bookmarks for the same seed, and others for a different one", async () => {
+    const pick = async (digestSeed: string) => {
+      harness = await startHarness({ bookmarks: sampleLibrary(), settings: { digestSeed } });
+      const digest = await harness.run();
+      await harness.stop();
+      harness = undefined;
+      return digest!.sections.map((s) => ({ title: s.title, ids: s.bookmarks.map((b) => b.id) }));
+    };
+
+    const first = await pick("replay");
+    assert.deepEqual(await pick("replay"), first);
+    assert.notDeepEqual(await pick("another"), first);
+  });
+
+  it("skips the digest when there are no unread bookmarks", async () => {
+    harness = await startHarness({ bookmarks: [] });
+    await harness.run();
+
+    assert.equal(harness.smtp.messages.length, 0);
+    assert.equal(harness.llm.prompts.length, 0);
+  });
+
+  it("logs JSON lines carrying the run ID and no secrets", async (t) => {
+    const lines: string[] = [];
+    t.mock.method(console, "log", (line: string) => lines.push(line));
+    t.mock.method(console, "error", (line: string) => lines.push(line));
+
+    harness = await startHarness({
+      bookmarks: sampleLibrary(),
+      settings: { logFormat: "json", smtpPass: "hunter2-smtp-pass" },
+    });
+    harness.karakeep.failNext(503);
+    await runWithRunId(() => harness!.run());
+
+    const entries = lines.map((line) => JSON.parse(line));
+    const runIds = new Set(entries.map((entry) => entry.runId));
+    assert.equal(runIds.size, 1);
+    assert.match([...runIds][0], /^[0-9a-f]{12}$/);
+    assert.ok(
+      entries.some((e) => e.level === "warn" && e.endpoint?.startsWith("/api/v1/bookmarks"))
+    );
+    assert.ok(entries.some((e) => e.msg.startsWith("Email sent") && e.messageId));
+
+    for (const line of lines) {
+      assert.doesNotMatch(line, new RegExp(`${MOCK_API_KEY}|hunter2-smtp-pass`));
+    }
+  });
+});
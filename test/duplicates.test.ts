@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { collapseDuplicates, findDuplicateGroups, normalizeTitle } from "../src/duplicates.js";
+import { makeDigestBookmark } from "./support/fixtures.js";
+
+const ids = (groups: { id: string }[][]) => groups.map((group) => group.map((b) => b.id));
+
+describe("normalizeTitle", () => {
+  it("drops case, accents, punctuation and a trailing site name", () => {
+    assert.equal(normalizeTitle("Café Culture: A Guide | Hacker News"), "cafe culture a guide");
+    assert.equal(normalizeTitle("Big Launch - The Verge", "theverge.com"), "big launch");
+  });
+
+  it("keeps a suffix that isn't the site's name", () => {
+    assert.equal(normalizeTitle("Part 1 - Intro", "example.com"), "part 1 intro");
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups copies by canonical URL or title, chaining through either", () => {
+    const bookmarks = [
+      makeDigestBookmark("a", { url: "https://example.com/post?utm_source=x", title: "One" }),
+      makeDigestBookmark("b", { url: "https://www.example.com/post/", title: "Shared Long Title" }),
+      makeDigestBookmark("c", { url: "https://mirror.org/copy", title: "Shared Long Title" }),
+      makeDigestBookmark("d", { url: "https://other.org/", title: "Something Else Entirely" }),
+    ];
+
+    assert.deepEqual(ids(findDuplicateGroups(bookmarks)), [["a", "b", "c"]]);
+  });
+
+  it("doesn't match short titles or URLs differing in a meaningful ref", () => {
+    const bookmarks = [
+      makeDigestBookmark("a", { url: "https://one.org/", title: "Home" }),
+      makeDigestBookmark("b", { url: "https://two.org/", title: "Home" }),
+      makeDigestBookmark("c", { url: "https://github.com/acme/tool?ref=main", title: "acme" }),
+      makeDigestBookmark("d", { url: "https://github.com/acme/tool?ref=dev", title: "acme" }),
+    ];
+
+    assert.deepEqual(findDuplicateGroups(bookmarks), []);
+  });
+});
+
+describe("collapseDuplicates", () => {
+  it("keeps the copy with the most content, in input order", () => {
+    const short = makeDigestBookmark("short", {
+      url: "https://example.com/post",
+      content: { type: "link", text: "Brief" },
+    });
+    const full = makeDigestBookmark("full", { url: "https://example.com/post?utm_campaign=x" });
+    const other = makeDigestBookmark("other");
+
+    assert.deepEqual(
+      collapseDuplicates([short, other, full]).map((b) => b.id),
+      ["other", "full"]
+    );
+  });
+
+  it("keeps the oldest copy when content is equal", () => {
+    const newer = makeDigestBookmark("newer", { createdAt: new Date("2026-02-01") });
+    const older = makeDigestBookmark("older", {
+      url: newer.url,
+      createdAt: new Date("2026-01-01"),
+    });
+
+    assert.deepEqual(
+      collapseDuplicates([newer, older]).map((b) => b.id),
+      ["older"]
+    );
+  });
+});
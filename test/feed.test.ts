@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { readFileSync, rmSync } from "node:fs";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { type Profile, runWithProfile } from "../src/config.js";
+import { appendToFeed, getFeedPath } from "../src/feed.js";
+import type { SummarizedDigest } from "../src/types.js";
+import { makeTestProfile } from "./support/config.js";
+import { makeDigestBookmark } from "./support/fixtures.js";
+
+const HTML = "<html><body><h1>Digest &amp; more</h1></body></html>";
+
+function makeDigest(generatedAt: string): SummarizedDigest {
+  const bookmark = {
+    ...makeDigestBookmark("b1", { title: "Tips & <Tricks>" }),
+    aiSummary: 'A "quoted" summary',
+    daysAgo: 1,
+    readTime: 3,
+  };
+  return {
+    sections: [{ id: "recent", title: "Recent", type: "list", bookmarks: [bookmark] }],
+    stats: { totalUnread: 1, generatedAt: new Date(generatedAt) },
+  };
+}
+
+describe("appendToFeed", () => {
+  const profiles: Profile[] = [];
+  // Without PROFILES_CONFIG, digests run as the "default" profile
+  const profile = (settings = {}, name = "default") => {
+    const created = makeTestProfile(settings, name);
+    profiles.push(created);
+    return created;
+  };
+  const append = (p: Profile, generatedAt: string) =>
+    runWithProfile(p, () => {
+      appendToFeed(makeDigest(generatedAt), HTML);
+      return readFileSync(getFeedPath(), "utf-8");
+    });
+
+  beforeEach(() => {
+    profiles.length = 0;
+  });
+
+  afterEach(() => {
+    for (const p of profiles) rmSync(p.config.dataDir, { recursive: true, force: true });
+  });
+
+  it("writes an Atom feed with the digest body escaped, newest first", () => {
+    const p = profile({ feedUrl: "https://digest.example.com/feed.xml" });
+    append(p, "2026-10-12T08:00:00Z");
+    const xml = append(p, "2026-10-19T08:00:00Z");
+
+    assert.match(
+      xml,
+      /^<\?xml version="1\.0" encoding="utf-8"\?>\n<feed xmlns="http:\/\/www\.w3\.org\/2005\/Atom">/
+    );
+    assert.match(xml, /<id>urn:karakeep-digest:feed<\/id>/);
+    assert.match(xml, /<updated>2026-10-19T08:00:00\.000Z<\/updated>/);
+    assert.match(xml, /<link rel="self" href="https:\/\/digest\.example\.com\/feed\.xml"\/>/);
+    assert.match(
+      xml,
+      /<content type="html">&lt;h1&gt;Digest &amp;amp; more&lt;\/h1&gt;<\/content>/
+    );
+
+    const ids = [...xml.matchAll(/<entry>\s*<id>([^<]+)<\/id>/g)].map((m) => m[1]);
+    assert.deepEqual(ids, [
+      "urn:karakeep-digest:digest:2026-10-19T08:00:00.000Z",
+      "urn:karakeep-digest:digest:2026-10-12T08:00:00.000Z",
+    ]);
+  });
+
+  it("replaces a re-appended digest and keeps only the last FEED_MAX_DIGESTS", () => {
+    const p = profile({ feedMaxDigests: "2" });
+    append(p, "2026-10-05T08:00:00Z");
+    append(p, "2026-10-12T08:00:00Z");
+    append(p, "2026-10-19T08:00:00Z");
+    const xml = append(p, "2026-10-19T08:00:00Z");
+
+    assert.equal(xml.match(/<entry>/g)?.length, 2);
+    assert.doesNotMatch(xml, /2026-10-05/);
+  });
+
+  it("adds an escaped entry per bookmark with FEED_ITEMS", () => {
+    const xml = append(profile({ feedItems: "true" }), "2026-10-19T08:00:00Z");
+
+    assert.match(xml, /<id>urn:karakeep-digest:digest:2026-10-19T08:00:00\.000Z:bookmark:b1<\/id>/);
+    assert.match(xml, /<title>Tips &amp; &lt;Tricks&gt;<\/title>/);
+    assert.match(xml, /&lt;p&gt;A &amp;quot;quoted&amp;quot; summary&lt;\/p&gt;/);
+  });
+
+  it("names the profile in feed and entry IDs", () => {
+    const xml = append(profile({}, "home office"), "2026-10-19T08:00:00Z");
+
+    assert.match(xml, /<id>urn:karakeep-digest:home%20office:feed<\/id>/);
+    assert.match(
+      xml,
+      /<id>urn:karakeep-digest:home%20office:digest:2026-10-19T08:00:00\.000Z<\/id>/
+    );
+  });
+});
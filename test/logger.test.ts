@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it, type TestContext } from "node:test";
+import { createConfig, runWithProfile } from "../src/config.js";
+import { logger } from "../src/logger.js";
+
+const config = createConfig({
+  karakeepUrl: "http://127.0.0.1:1",
+  karakeepApiKey: "karakeep-key-1234",
+  anthropicApiKey: "anthropic-key-1234",
+  deliveryChannels: "feed",
+  logFormat: "json",
+});
+
+/**
+ * Log one line (info unless given) with these fields and return it parsed
+ */
+function logFields(
+  t: TestContext,
+  fields: Record<string, unknown>,
+  level: "info" | "error" = "info"
+): Record<string, unknown> {
+  const lines: string[] = [];
+  t.mock.method(console, level === "error" ? "error" : "log", (line: string) => lines.push(line));
+  runWithProfile({ name: "test", config }, () => logger[level]("Logged", fields));
+  return JSON.parse(lines[0]);
+}
+
+describe("logger", () => {
+  it("redacts fields named like credentials", (t) => {
+    const entry = logFields(t, {
+      apiKey: "a",
+      api_key: "b",
+      smtpPass: "c",
+      ntfy_token: "d",
+      clientSecret: "e",
+      Authorization: "Bearer f",
+      headers: { "x-api-key": "g" },
+    });
+
+    for (const name of ["apiKey", "api_key", "smtpPass", "ntfy_token", "clientSecret"]) {
+      assert.equal(entry[name], "[redacted]", name);
+    }
+    assert.equal(entry.Authorization, "[redacted]");
+    assert.deepEqual(entry.headers, { "x-api-key": "[redacted]" });
+  });
+
+  it("logs token counts and other fields that only mention a credential word", (t) => {
+    const entry = logFields(t, { inputTokens: 120, outputTokens: 45, tokens: 165, passes: 2 });
+
+    assert.equal(entry.inputTokens, 120);
+    assert.equal(entry.outputTokens, 45);
+    assert.equal(entry.tokens, 165);
+    assert.equal(entry.passes, 2);
+  });
+
+  it("redacts configured secrets wherever they appear", (t) => {
+    const entry = logFields(t, { error: new Error("Rejected key karakeep-key-1234") });
+
+    assert.equal(entry.error, "Rejected key [redacted]");
+  });
+
+  it("keeps the stack trace of errors logged at error level, with secrets redacted", (t) => {
+    const error = new Error("Rejected key karakeep-key-1234");
+    const entry = logFields(t, { error, nested: { cause: error } }, "error");
+
+    assert.match(
+      entry.error as string,
+      /^Error: Rejected key \[redacted\]\n {4}at .*logger\.test\.ts/
+    );
+    assert.doesNotMatch(entry.error as string, /karakeep-key-1234/);
+    assert.equal((entry.nested as { cause: string }).cause, entry.error);
+  });
+});
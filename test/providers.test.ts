@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { rmSync } from "node:fs";
+import { after, before, describe, it } from "node:test";
+import { type Profile, runWithProfile } from "../src/config.js";
+import { createProviderChain } from "../src/providers.js";
+import { makeTestProfile } from "./support/config.js";
+import { FakeOpenAIServer } from "./support/openai-server.js";
+
+describe("LLM providers", () => {
+  const llm = new FakeOpenAIServer(() => "A fake completion");
+  let profile: Profile;
+
+  before(async () => {
+    profile = makeTestProfile({
+      llmProvider: "openai",
+      openaiBaseUrl: await llm.start(),
+      openaiModel: "fake-model",
+      llmTimeoutSeconds: "0.2",
+    });
+  });
+
+  after(async () => {
+    await llm.stop();
+    rmSync(profile.config.dataDir, { recursive: true, force: true });
+  });
+
+  it("gives up on a hung request after LLM_TIMEOUT_SECONDS and retries it", async () => {
+    llm.hangNext = 1;
+    const sent = llm.prompts.length;
+
+    const result = await runWithProfile(profile, () =>
+      createProviderChain().completeWithProvider("Summarize this", 100)
+    );
+
+    assert.deepEqual(result, { text: "A fake completion", provider: "openai/fake-model" });
+    assert.equal(llm.prompts.length, sent + 2);
+  });
+
+  it("fails the provider once every attempt has timed out", async () => {
+    llm.hangNext = 3;
+
+    await assert.rejects(
+      runWithProfile(profile, () => createProviderChain().complete("Summarize this", 100)),
+      /All LLM providers failed \(openai\/fake-model: .*timeout/
+    );
+  });
+});
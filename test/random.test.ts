@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createRng, createSeed, randomInt, shuffle, weightedShuffle } from "../src/random.js";
+
+describe("createRng", () => {
+  it("repeats the sequence for a seed and differs for another", () => {
+    const take = (seed: string) => {
+      const rng = createRng(seed);
+      return Array.from({ length: 5 }, () => rng());
+    };
+
+    assert.deepEqual(take("abc"), take("abc"));
+    assert.notDeepEqual(take("abc"), take("abd"));
+  });
+
+  it("stays within [0, 1)", () => {
+    const rng = createRng("range");
+    for (let i = 0; i < 10_000; i++) {
+      const value = rng();
+      assert.ok(value >= 0 && value < 1, String(value));
+    }
+  });
+});
+
+describe("createSeed", () => {
+  it("is 8 hex characters", () => {
+    assert.match(createSeed(), /^[0-9a-f]{8}$/);
+  });
+});
+
+describe("randomInt", () => {
+  it("covers every integer below the maximum", () => {
+    const rng = createRng("ints");
+    const seen = new Set(Array.from({ length: 200 }, () => randomInt(rng, 5)));
+    assert.deepEqual([...seen].sort(), [0, 1, 2, 3, 4]);
+  });
+});
+
+describe("shuffle", () => {
+  it("returns a new permutation without changing the input", () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = shuffle(items, createRng("perm"));
+
+    assert.deepEqual(items, [1, 2, 3, 4, 5]);
+    assert.deepEqual([...shuffled].sort(), items);
+  });
+
+  it("makes every ordering about equally likely", () => {
+    const rng = createRng("uniform");
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 6000; i++) {
+      const key = shuffle(["a", "b", "c"], rng).join("");
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    assert.equal(counts.size, 6);
+    for (const [order, count] of counts) {
+      assert.ok(count > 850 && count < 1150, `${order}: ${count}`);
+    }
+  });
+
+  it("handles empty and single-item lists", () => {
+    assert.deepEqual(shuffle([], createRng("x")), []);
+    assert.deepEqual(shuffle(["only"], createRng("x")), ["only"]);
+  });
+});
+
+describe("weightedShuffle", () => {
+  it("puts heavier items first in proportion to their weight", () => {
+    const rng = createRng("weighted");
+    let heavyFirst = 0;
+    for (let i = 0; i < 2000; i++) {
+      const [first] = weightedShuffle(
+        ["heavy", "light"],
+        (item) => (item === "heavy" ? 9 : 1),
+        rng
+      );
+      if (first === "heavy") heavyFirst++;
+    }
+
+    // Expected share 0.9
+    assert.ok(heavyFirst > 1740 && heavyFirst < 1860, String(heavyFirst));
+  });
+
+  it("puts zero and negative weights last", () => {
+    const weights: Record<string, number> = { a: 0, b: 1, c: -3, d: 2 };
+    const order = weightedShuffle(Object.keys(weights), (item) => weights[item], createRng("zero"));
+
+    assert.deepEqual([...order.slice(0, 2)].sort(), ["b", "d"]);
+  });
+});
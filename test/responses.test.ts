@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  articleSummarySchema,
+  buildRepairPrompt,
+  clusterSynthesisSchema,
+  extractJsonObject,
+  parseResponse,
+} from "../src/responses.js";
+
+describe("parseResponse", () => {
+  it("accepts a clean or code-fenced response", () => {
+    for (const response of ['{"summary": "Short."}', '```json\n{"summary": "Short."}\n```']) {
+      assert.deepEqual(parseResponse(response, articleSummarySchema), {
+        ok: true,
+        value: { summary: "Short." },
+        path: "clean",
+      });
+    }
+  });
+
+  it("extracts a JSON object from surrounding prose", () => {
+    const parsed = parseResponse(
+      'Sure! Here it is: {"summary": "Uses {braces} inside."} Hope that helps.',
+      articleSummarySchema
+    );
+
+    assert.deepEqual(parsed, {
+      ok: true,
+      value: { summary: "Uses {braces} inside." },
+      path: "extracted",
+    });
+  });
+
+  it("reports invalid JSON", () => {
+    const parsed = parseResponse('{"summary": "unterminated', articleSummarySchema);
+
+    assert.equal(parsed.ok, false);
+    assert.match(!parsed.ok ? parsed.error : "", /^Invalid JSON/);
+  });
+
+  it("reports schema violations, such as a blank summary", () => {
+    const parsed = parseResponse('{"summary": "   "}', articleSummarySchema);
+
+    assert.equal(parsed.ok, false);
+    assert.match(!parsed.ok ? parsed.error : "", /summary/);
+  });
+
+  it("splits key insights given as one bulleted string", () => {
+    const parsed = parseResponse(
+      JSON.stringify({
+        overview: "Overview.",
+        keyInsights: "- First\n* Second\n3. Third",
+        standout: "Standout.",
+      }),
+      clusterSynthesisSchema
+    );
+
+    assert.deepEqual(parsed.ok && parsed.value.keyInsights, ["First", "Second", "Third"]);
+  });
+});
+
+describe("extractJsonObject", () => {
+  it("skips unbalanced or invalid candidates", () => {
+    assert.equal(extractJsonObject('{oops} then {"a": "}"}'), '{"a": "}"}');
+    assert.equal(extractJsonObject("no json here"), null);
+  });
+});
+
+describe("buildRepairPrompt", () => {
+  it("inserts the error, response and schema literally", () => {
+    const prompt = buildRepairPrompt(
+      "Error: {{ERROR}}\nResponse: {{RESPONSE}}\nSchema: {{SCHEMA}}",
+      "  Costs $& and $1  ",
+      "Invalid JSON",
+      articleSummarySchema
+    );
+
+    assert.match(prompt, /^Error: Invalid JSON\nResponse: Costs \$& and \$1\nSchema: \{/);
+    assert.match(prompt, /"summary"/);
+  });
+});
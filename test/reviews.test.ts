@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { rmSync } from "node:fs";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { type Profile, runWithProfile } from "../src/config.js";
+import {
+  loadReviews,
+  orderForReview,
+  recordReviewFeedback,
+  recordReviews,
+} from "../src/reviews.js";
+import type { Bookmark, DigestSections, ReviewState } from "../src/types.js";
+import { makeTestProfile } from "./support/config.js";
+import { makeDigestBookmark } from "./support/fixtures.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-10-19T08:00:00Z");
+
+function review(dueInDays: number, overrides: Partial<ReviewState> = {}): ReviewState {
+  return {
+    repetitions: 1,
+    intervalDays: 7,
+    ease: 2.5,
+    lastShownAt: new Date(NOW.getTime() - 7 * DAY_MS).toISOString(),
+    dueAt: new Date(NOW.getTime() + dueInDays * DAY_MS).toISOString(),
+    ...overrides,
+  };
+}
+
+function reviewDigest(bookmarks: Bookmark[]): DigestSections {
+  const section = { id: "remember", title: "Remember", type: "list" as const, review: true };
+  return { sections: [{ ...section, bookmarks }], stats: { totalUnread: 0, generatedAt: NOW } };
+}
+
+describe("orderForReview", () => {
+  it("puts overdue bookmarks first, then never shown ones, and drops those not yet due", () => {
+    const bookmarks = [
+      makeDigestBookmark("new-recent", { createdAt: new Date("2026-09-01") }),
+      makeDigestBookmark("not-due"),
+      makeDigestBookmark("due-today"),
+      makeDigestBookmark("new-old", { createdAt: new Date("2025-01-01") }),
+      makeDigestBookmark("long-overdue"),
+    ];
+    const reviews = new Map([
+      ["not-due", review(3)],
+      ["due-today", review(0)],
+      ["long-overdue", review(-20)],
+    ]);
+
+    assert.deepEqual(
+      orderForReview(bookmarks, reviews, NOW).map((b) => b.id),
+      ["long-overdue", "due-today", "new-old", "new-recent"]
+    );
+  });
+
+  it("returns nothing when no bookmark is due or new", () => {
+    const reviews = new Map([["a", review(1)]]);
+    assert.deepEqual(orderForReview([makeDigestBookmark("a")], reviews, NOW), []);
+  });
+});
+
+describe("review schedule", () => {
+  let profile: Profile;
+  const inProfile = <T>(fn: () => T) => runWithProfile(profile, fn);
+
+  beforeEach(() => {
+    profile = makeTestProfile();
+  });
+
+  afterEach(() => {
+    rmSync(profile.config.dataDir, { recursive: true, force: true });
+  });
+
+  it("schedules new bookmarks a week out and stretches the interval of due ones", () => {
+    const first = new Date("2026-10-01T08:00:00Z");
+    inProfile(() => recordReviews(reviewDigest([makeDigestBookmark("a")]), first));
+    const afterFirst = inProfile(loadReviews).get("a")!;
+
+    assert.equal(afterFirst.repetitions, 1);
+    assert.equal(afterFirst.intervalDays, 7);
+    assert.equal(afterFirst.dueAt, "2026-10-08T08:00:00.000Z");
+
+    inProfile(() => recordReviews(reviewDigest([makeDigestBookmark("a")]), NOW));
+    const afterSecond = inProfile(loadReviews).get("a")!;
+
+    assert.equal(afterSecond.repetitions, 2);
+    assert.equal(afterSecond.intervalDays, 18); // 7 * 2.5, rounded
+  });
+
+  it("leaves the schedule of bookmarks shown before they were due", () => {
+    const shownAt = new Date("2026-10-01T08:00:00Z");
+    inProfile(() => recordReviews(reviewDigest([makeDigestBookmark("a")]), shownAt));
+    const scheduled = inProfile(loadReviews).get("a");
+
+    inProfile(() => recordReviews(reviewDigest([makeDigestBookmark("a")]), new Date(shownAt)));
+
+    assert.deepEqual(inProfile(loadReviews).get("a"), scheduled);
+  });
+
+  it("brings forgotten bookmarks back next time and counts one grade per showing", () => {
+    inProfile(() => recordReviews(reviewDigest([makeDigestBookmark("a")]), NOW));
+
+    assert.equal(
+      inProfile(() => recordReviewFeedback("a", "forgotten")),
+      true
+    );
+    assert.equal(
+      inProfile(() => recordReviewFeedback("a", "remembered")),
+      true
+    );
+
+    const state = inProfile(loadReviews).get("a")!;
+    assert.equal(state.lastGrade, "forgotten");
+    assert.equal(state.repetitions, 0);
+    assert.equal(state.intervalDays, 1);
+    assert.equal(state.ease, 2.3);
+    assert.equal(state.dueAt, "2026-10-20T08:00:00.000Z");
+  });
+
+  it("stretches the schedule of remembered bookmarks", () => {
+    inProfile(() => recordReviews(reviewDigest([makeDigestBookmark("a")]), NOW));
+    inProfile(() => recordReviewFeedback("a", "remembered"));
+
+    const state = inProfile(loadReviews).get("a")!;
+    assert.equal(state.intervalDays, 9); // 7 * 1.3, rounded
+    assert.equal(state.ease, 2.65);
+  });
+
+  it("reports bookmarks without a schedule", () => {
+    assert.equal(
+      inProfile(() => recordReviewFeedback("unknown", "remembered")),
+      false
+    );
+  });
+});
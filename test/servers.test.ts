@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { startActionServer } from "../src/actions.js";
+import { type Profile, type RawConfig, runWithProfile } from "../src/config.js";
+import { startFeedServer } from "../src/feed.js";
+import { startStatusServer } from "../src/status.js";
+import { makeTestProfile } from "./support/config.js";
+
+describe("daemon servers", () => {
+  const profiles: Profile[] = [];
+  const blocker = createServer();
+  let port: string;
+
+  const servers: [string, () => Server | undefined, (port: string) => RawConfig][] = [
+    [
+      "Action",
+      startActionServer,
+      (actionsPort) => ({
+        actionsUrl: "https://digest.example.com",
+        actionsSecret: "a-secret-of-sixteen-plus",
+        actionsPort,
+      }),
+    ],
+    ["Feed", startFeedServer, (feedPort) => ({ feedPort })],
+    ["Status", startStatusServer, (statusPort) => ({ statusPort })],
+  ];
+
+  before(async () => {
+    await new Promise<void>((resolve) => blocker.listen(0, resolve));
+    port = String((blocker.address() as AddressInfo).port);
+  });
+
+  after(async () => {
+    await new Promise((resolve) => blocker.close(resolve));
+    for (const p of profiles) rmSync(p.config.dataDir, { recursive: true, force: true });
+  });
+
+  for (const [name, start, settings] of servers) {
+    it(`${name.toLowerCase()} server logs and carries on when its port is in use`, async (t) => {
+      const errors: string[] = [];
+      t.mock.method(console, "error", (line: string) => errors.push(line));
+      const profile = makeTestProfile(settings(port));
+      profiles.push(profile);
+
+      const server = runWithProfile(profile, start);
+      assert.ok(server);
+      const [error] = await once(server, "error");
+
+      assert.equal(error.code, "EADDRINUSE");
+      assert.equal(server.listening, false);
+      assert.match(errors.join("\n"), new RegExp(`${name} server failed on port ${port}`));
+    });
+  }
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { runWithProfile } from "../src/config.js";
+import { createStatusServer, registerSchedule, trackRun } from "../src/status.js";
+import type { SummarizedDigest } from "../src/types.js";
+import { sampleLibrary } from "./support/fixtures.js";
+import { type Harness, startHarness } from "./support/harness.js";
+
+describe("status server", () => {
+  let harness: Harness;
+  let server: Server;
+  let baseUrl: string;
+
+  const get = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: await response.text() };
+  };
+
+  before(async () => {
+    harness = await startHarness({ bookmarks: sampleLibrary() });
+    server = createStatusServer();
+    // Listen under the harness profile, so handlers read STATUS_MAX_FAILURES from its config
+    await runWithProfile(
+      { name: "test", config: harness.config },
+      () => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await harness.stop();
+  });
+
+  it("is live but not ready before a schedule is registered", async () => {
+    assert.deepEqual(await get("/healthz"), { status: 200, body: "ok\n" });
+    assert.deepEqual(await get("/readyz"), {
+      status: 503,
+      body: "not ready: no schedule registered\n",
+    });
+  });
+
+  it("reports the last run and its sections after a digest", async () => {
+    registerSchedule("test", "0 8 * * 1", () => new Date("2026-10-26T08:00:00Z"));
+    let digest: SummarizedDigest | null = null;
+    assert.equal(await trackRun("test", async () => (digest = await harness.run())), true);
+    assert.ok(digest);
+
+    assert.deepEqual(await get("/readyz"), { status: 200, body: "ok\n" });
+
+    const { status, body } = await get("/status");
+    assert.equal(status, 200);
+    const profile = JSON.parse(body).profiles.test;
+    assert.equal(profile.schedule, "0 8 * * 1");
+    assert.equal(profile.nextRunAt, "2026-10-26T08:00:00.000Z");
+    assert.equal(profile.running, false);
+    assert.equal(profile.consecutiveFailures, 0);
+    assert.equal(profile.lastRun.outcome, "success");
+    assert.deepEqual(
+      profile.lastRun.sections,
+      (digest as SummarizedDigest).sections.map((s) => ({
+        id: s.id,
+        title: s.title,
+        items: s.bookmarks.length,
+      }))
+    );
+    assert.ok(profile.lastRun.sections.length > 0);
+  });
+
+  it("exports counters and histograms in Prometheus text format", async () => {
+    const { status, body } = await get("/metrics");
+    assert.equal(status, 200);
+    const lines = body.split("\n");
+
+    assert.ok(lines.includes("# TYPE karakeep_digest_runs_total counter"));
+    assert.ok(lines.includes('karakeep_digest_runs_total{profile="test",outcome="success"} 1'));
+    assert.ok(lines.includes("# TYPE karakeep_digest_run_duration_seconds histogram"));
+    assert.ok(
+      lines.includes('karakeep_digest_run_duration_seconds_bucket{profile="test",le="10"} 1')
+    );
+    assert.ok(
+      lines.includes('karakeep_digest_run_duration_seconds_bucket{profile="test",le="+Inf"} 1')
+    );
+    assert.ok(lines.includes('karakeep_digest_run_duration_seconds_count{profile="test"} 1'));
+    assert.ok(
+      lines.some((l) =>
+        /^karakeep_digest_run_duration_seconds_sum\{profile="test"\} [\d.]+$/.test(l)
+      )
+    );
+    assert.ok(
+      lines.some((l) => /^karakeep_digest_karakeep_requests_total\{status="200"\} \d+$/.test(l))
+    );
+    assert.ok(lines.includes('karakeep_digest_emails_sent_total{profile="test"} 1'));
+    assert.ok(body.endsWith("\n"));
+  });
+
+  it("turns not ready after STATUS_MAX_FAILURES failed runs in a row", async () => {
+    for (let i = 0; i < 3; i++) {
+      harness.karakeep.failNext(500, 500, 500);
+      assert.equal(await trackRun("test", () => harness.run()), false);
+    }
+
+    const profile = JSON.parse((await get("/status")).body).profiles.test;
+    assert.equal(profile.consecutiveFailures, 3);
+    assert.equal(profile.lastRun.outcome, "failure");
+    assert.equal(profile.lastRun.stage, "fetch");
+    assert.match(profile.lastRun.error, /Server error: 500/);
+
+    assert.deepEqual(await get("/readyz"), {
+      status: 503,
+      body: 'not ready: profile "test" failed 3 runs in a row\n',
+    });
+    assert.match(
+      (await get("/metrics")).body,
+      /runs_total\{profile="test",outcome="failure"\} 3\n/
+    );
+  });
+
+  it("rejects other methods and paths", async () => {
+    assert.equal((await fetch(`${baseUrl}/status`, { method: "POST" })).status, 405);
+    assert.equal((await get("/nope")).status, 404);
+  });
+});
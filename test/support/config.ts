@@ -0,0 +1,21 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createConfig, type Profile, type RawConfig } from "../../src/config.js";
+
+/**
+ * A profile for testing modules on their own: a valid config with nothing to connect to
+ * (feed delivery only) and its own DATA_DIR, plus any extra settings
+ * Remove `profile.config.dataDir` when done
+ */
+export function makeTestProfile(settings: RawConfig = {}, name = "test"): Profile {
+  const config = createConfig({
+    karakeepUrl: "http://127.0.0.1:1",
+    karakeepApiKey: "karakeep-key-1234",
+    anthropicApiKey: "anthropic-key-1234",
+    deliveryChannels: "feed",
+    dataDir: mkdtempSync(join(tmpdir(), "karakeep-digest-test-")),
+    ...settings,
+  });
+  return { name, config };
+}
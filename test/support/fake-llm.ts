@@ -0,0 +1,43 @@
+import type { LLMProvider } from "../../src/types.js";
+
+/**
+ * Produces the raw response to a prompt; throwing simulates a provider error
+ */
+export type LLMScript = (prompt: string) => string;
+
+/**
+ * Scripted LLM provider that records every prompt it receives
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly chunkTokens = 4000;
+  readonly prompts: string[] = [];
+
+  constructor(private readonly script: LLMScript = defaultScript) {}
+
+  async complete(prompt: string, _maxTokens: number): Promise<string> {
+    this.prompts.push(prompt);
+    return this.script(prompt);
+  }
+}
+
+/**
+ * Valid responses for every prompt the digest sends, recognisable in the output
+ * Article summaries read "Fake summary of <title>"
+ */
+export function defaultScript(prompt: string): string {
+  if (prompt.includes('"keyInsights"')) {
+    return JSON.stringify({
+      overview: "Fake overview of the roundup.",
+      keyInsights: ["Fake insight one", "Fake insight two"],
+      standout: "Fake standout pick.",
+    });
+  }
+
+  if (prompt.includes('"label"')) {
+    return JSON.stringify({ label: "Fake Topic" });
+  }
+
+  const title = prompt.match(/^Title: (.*)$/m)?.[1] ?? "an article";
+  return JSON.stringify({ summary: `Fake summary of ${title}` });
+}
@@ -0,0 +1,99 @@
+import type { Bookmark, KarakeepBookmark } from "../../src/types.js";
+import { canonicalizeUrl } from "../../src/urls.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A Karakeep API bookmark with enough content to be summarized
+ */
+export function makeBookmark(
+  id: string,
+  options: {
+    title?: string;
+    daysOld?: number;
+    tags?: string[];
+    archived?: boolean;
+    url?: string;
+  } = {}
+): KarakeepBookmark {
+  const title = options.title ?? `Article ${id}`;
+  const createdAt = new Date(Date.now() - (options.daysOld ?? 1) * DAY_MS).toISOString();
+
+  return {
+    id,
+    createdAt,
+    modifiedAt: null,
+    title,
+    archived: options.archived ?? false,
+    favourited: false,
+    taggingStatus: "success",
+    summarizationStatus: null,
+    userId: "user-1",
+    content: {
+      type: "link",
+      url: options.url ?? `https://example.com/articles/${id}`,
+      title,
+      htmlContent: `<article><h1>${title}</h1><p>${"A paragraph of article text. ".repeat(20)}</p></article>`,
+    },
+    tags: (options.tags ?? []).map((name) => ({ id: `tag-${name}`, name, attachedBy: "user" })),
+    assets: [],
+  };
+}
+
+/**
+ * A bookmark as the digest sees it once fetched, for testing modules without the API
+ */
+export function makeDigestBookmark(id: string, overrides: Partial<Bookmark> = {}): Bookmark {
+  const raw = makeBookmark(id);
+  const url = overrides.url ?? raw.content.url!;
+
+  return {
+    id,
+    url,
+    canonicalUrl: canonicalizeUrl(url),
+    title: raw.title,
+    createdAt: new Date(raw.createdAt),
+    archived: false,
+    favourited: false,
+    source: new URL(url).hostname,
+    userId: raw.userId,
+    content: raw.content,
+    tags: [],
+    assets: [],
+    ...overrides,
+  };
+}
+
+/**
+ * A small library that fills every default section except "one year ago": recent and old unread
+ * bookmarks, an archived one, and enough sharing a tag that some are left for the roundup
+ * whichever ones the earlier sections pick
+ */
+export function sampleLibrary(): KarakeepBookmark[] {
+  const rust = [
+    "Ownership",
+    "Lifetimes",
+    "Async",
+    "Macros",
+    "Traits",
+    "Errors",
+    "Testing",
+    "CLIs",
+    "FFI",
+  ];
+
+  return [
+    makeBookmark("recent-1", { title: "Recent Reading One", daysOld: 2 }),
+    makeBookmark("recent-2", { title: "Recent Reading Two", daysOld: 5 }),
+    makeBookmark("old-1", { title: "Buried Article One", daysOld: 60 }),
+    makeBookmark("old-2", { title: "Buried Article Two", daysOld: 90 }),
+    ...rust.map((topic, i) =>
+      makeBookmark(`rust-${i + 1}`, {
+        title: `Rust ${topic} Explained`,
+        daysOld: 10 + i * 10,
+        tags: ["rust"],
+      })
+    ),
+    makeBookmark("archived-1", { title: "An Archived Gem", daysOld: 200, archived: true }),
+  ];
+}
@@ -0,0 +1,72 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type Config, createConfig, type RawConfig, runWithProfile } from "../../src/config.js";
+import { generateAndSendDigest } from "../../src/digest.js";
+import { ProviderChain } from "../../src/providers.js";
+import type { KarakeepBookmark, SummarizedDigest } from "../../src/types.js";
+import { FakeLLMProvider, type LLMScript } from "./fake-llm.js";
+import { MOCK_API_KEY, MockKarakeepServer } from "./karakeep-server.js";
+import { SmtpCapture } from "./smtp-capture.js";
+
+/**
+ * A digest environment with no outside dependencies: mock Karakeep, fake LLM, captured SMTP,
+ * and a config (with its own DATA_DIR) injected instead of read from the environment
+ */
+export interface Harness {
+  karakeep: MockKarakeepServer;
+  smtp: SmtpCapture;
+  llm: FakeLLMProvider;
+  config: Config;
+  /** Generate and deliver one digest with the harness config (null if nothing was sent) */
+  run(): Promise<SummarizedDigest | null>;
+  stop(): Promise<void>;
+}
+
+export async function startHarness(
+  options: {
+    bookmarks?: KarakeepBookmark[];
+    script?: LLMScript;
+    /** Extra raw settings, named like the config fields, e.g. { digestSeed: "abc" } */
+    settings?: RawConfig;
+  } = {}
+): Promise<Harness> {
+  const karakeep = new MockKarakeepServer(options.bookmarks ?? []);
+  const smtp = new SmtpCapture();
+  const llm = new FakeLLMProvider(options.script);
+  const dataDir = mkdtempSync(join(tmpdir(), "karakeep-digest-test-"));
+
+  const karakeepUrl = await karakeep.start();
+  const smtpPort = await smtp.start();
+
+  const config = createConfig({
+    karakeepUrl,
+    karakeepApiKey: MOCK_API_KEY,
+    anthropicApiKey: "unused", // The fake provider stands in for the configured one
+    deliveryChannels: "email",
+    smtpHost: "127.0.0.1",
+    smtpPort: String(smtpPort),
+    smtpSecure: "false",
+    smtpUser: "digest",
+    smtpPass: "secret",
+    emailFrom: "digest@example.com",
+    emailTo: "reader@example.com",
+    dataDir,
+    ...options.settings,
+  });
+
+  return {
+    karakeep,
+    smtp,
+    llm,
+    config,
+    run: () =>
+      runWithProfile({ name: "test", config }, () =>
+        generateAndSendDigest({ provider: new ProviderChain([llm]) })
+      ),
+    stop: async () => {
+      await Promise.all([karakeep.stop(), smtp.stop()]);
+      rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { KarakeepBookmark } from "../../src/types.js";
+
+export const MOCK_API_KEY = "test-api-key";
+
+/**
+ * Local stand-in for the Karakeep API, serving fixture bookmarks with cursor pagination
+ * Failures can be queued to exercise retries (each queued status answers one request),
+ * or set for every request to a path
+ */
+export class MockKarakeepServer {
+  /** Every request received, as "METHOD /path?query" */
+  readonly requests: string[] = [];
+  private server: Server | undefined;
+  private queuedFailures: number[] = [];
+  private failingPaths: Array<{ match: string; status: number }> = [];
+
+  /**
+   * @param bookmarks Fixture bookmarks, served newest first like Karakeep
+   * @param pageSize Bookmarks per page, capping the client's `limit` so pagination is exercised
+   */
+  constructor(
+    readonly bookmarks: KarakeepBookmark[],
+    private readonly pageSize = 2
+  ) {}
+
+  /**
+   * Answer the next requests with these statuses (429 comes with Retry-After: 0)
+   */
+  failNext(...statuses: number[]): void {
+    this.queuedFailures.push(...statuses);
+  }
+
+  /**
+   * Answer every request whose path and query contain `match` with this status
+   */
+  failMatching(match: string, status: number): void {
+    this.failingPaths.push({ match, status });
+  }
+
+  /**
+   * Start listening on a free port, returning the base URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    this.requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+    const failure =
+      this.queuedFailures.shift() ??
+      this.failingPaths.find((f) => `${url.pathname}${url.search}`.includes(f.match))?.status;
+    if (failure === 429) {
+      res.writeHead(429, { "Retry-After": "0" }).end();
+      return;
+    }
+    if (failure !== undefined) {
+      sendJson(res, failure, { error: "Injected failure" });
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${MOCK_API_KEY}`) {
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/api/v1/bookmarks") {
+      const archived = url.searchParams.get("archived");
+      const matching = this.bookmarks
+        .filter((b) => archived === null || String(b.archived) === archived)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      sendJson(res, 200, this.page(matching, url.searchParams));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/api/v1/bookmarks/search") {
+      // Title match stands in for Karakeep's full-text search
+      const query = (url.searchParams.get("q") ?? "").toLowerCase();
+      const matching = this.bookmarks.filter((b) => b.title?.toLowerCase().includes(query));
+      sendJson(res, 200, this.page(matching, url.searchParams));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/api/v1/users/me") {
+      sendJson(res, 200, { id: "user-1", name: "Test User", email: "reader@example.com" });
+      return;
+    }
+
+    const single = url.pathname.match(/^\/api\/v1\/bookmarks\/([^/]+)$/);
+    const bookmark = single && this.bookmarks.find((b) => b.id === decodeURIComponent(single[1]));
+    if (req.method === "GET" && bookmark) {
+      sendJson(res, 200, bookmark);
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  }
+
+  /**
+   * One page of bookmarks; the cursor is the offset of the next page
+   */
+  private page(bookmarks: KarakeepBookmark[], params: URLSearchParams) {
+    const offset = Number(params.get("cursor") ?? 0);
+    const limit = Math.min(Number(params.get("limit") ?? this.pageSize), this.pageSize);
+    const next = offset + limit;
+
+    return {
+      bookmarks: bookmarks.slice(offset, next),
+      nextCursor: next < bookmarks.length ? String(next) : null,
+    };
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
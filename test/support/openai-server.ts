@@ -0,0 +1,52 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { defaultScript, type LLMScript } from "./fake-llm.js";
+
+/**
+ * Local OpenAI-compatible chat completions API answering with a script, for tests that run the
+ * CLI in its own process, where the fake provider can't be injected
+ */
+export class FakeOpenAIServer {
+  readonly prompts: string[] = [];
+  /** Requests to leave unanswered, as a hung server would */
+  hangNext = 0;
+  private server: Server | undefined;
+
+  constructor(private readonly script: LLMScript = defaultScript) {}
+
+  /**
+   * Start listening on a free port, returning the base URL (OPENAI_BASE_URL)
+   */
+  async start(): Promise<string> {
+    this.server = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+
+      if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const prompt: string = JSON.parse(body).messages[0].content;
+      this.prompts.push(prompt);
+      if (this.hangNext > 0) {
+        this.hangNext--;
+        return;
+      }
+      const content = this.script(prompt);
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ choices: [{ message: { role: "assistant", content } }] }));
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v1`;
+  }
+
+  async stop(): Promise<void> {
+    this.server?.closeAllConnections();
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+}
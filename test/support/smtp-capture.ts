@@ -0,0 +1,189 @@
+import { type AddressInfo, createServer, type Server, type Socket } from "node:net";
+
+/**
+ * A message received by the SMTP capture, with its text and HTML parts decoded
+ */
+export interface CapturedMail {
+  from: string;
+  to: string[];
+  /** Username from AUTH PLAIN, if the client authenticated */
+  user?: string;
+  headers: Record<string, string>;
+  text?: string;
+  html?: string;
+  raw: string;
+}
+
+/**
+ * In-process SMTP server that accepts any login and keeps every message instead of sending it
+ * Speaks just enough plain SMTP (no TLS) for nodemailer
+ */
+export class SmtpCapture {
+  readonly messages: CapturedMail[] = [];
+  private server: Server | undefined;
+
+  /**
+   * Start listening on a free port, returning the port
+   */
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.handle(socket));
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private handle(socket: Socket): void {
+    let buffer = "";
+    let inData = false;
+    let dataLines: string[] = [];
+    let envelope: { from: string; to: string[]; user?: string } = { from: "", to: [] };
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const onLine = (line: string) => {
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          this.messages.push(parseMessage(dataLines.join("\r\n"), envelope));
+          envelope = { from: "", to: [], user: envelope.user };
+          reply("250 Message captured");
+        } else {
+          // Undo dot-stuffing
+          dataLines.push(line.startsWith(".") ? line.slice(1) : line);
+        }
+        return;
+      }
+
+      const [command, ...args] = line.split(" ");
+      switch (command.toUpperCase()) {
+        case "EHLO":
+          reply("250-localhost");
+          reply("250 AUTH PLAIN");
+          break;
+        case "HELO":
+          reply("250 localhost");
+          break;
+        case "AUTH": {
+          // AUTH PLAIN base64("\0user\0pass")
+          const [, user] = Buffer.from(args[1] ?? "", "base64")
+            .toString()
+            .split("\0");
+          envelope.user = user;
+          reply("235 Authenticated");
+          break;
+        }
+        case "MAIL":
+          envelope.from = extractAddress(line);
+          reply("250 OK");
+          break;
+        case "RCPT":
+          envelope.to.push(extractAddress(line));
+          reply("250 OK");
+          break;
+        case "DATA":
+          inData = true;
+          dataLines = [];
+          reply("354 End data with <CR><LF>.<CR><LF>");
+          break;
+        case "QUIT":
+          reply("221 Bye");
+          socket.end();
+          break;
+        default:
+          reply("250 OK");
+      }
+    };
+
+    // Clients like nodemailer's verify() may reset the connection instead of sending QUIT
+    socket.on("error", () => socket.destroy());
+    reply("220 localhost SMTP capture");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("latin1");
+      let end = buffer.indexOf("\r\n");
+      while (end !== -1) {
+        onLine(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf("\r\n");
+      }
+    });
+  }
+}
+
+function extractAddress(line: string): string {
+  return line.match(/<([^>]*)>/)?.[1] ?? "";
+}
+
+/**
+ * Split a MIME entity into lowercased, unfolded headers and its body
+ */
+function splitEntity(entity: string): { headers: Record<string, string>; body: string } {
+  const separator = entity.indexOf("\r\n\r\n");
+  const head = separator === -1 ? entity : entity.slice(0, separator);
+  const body = separator === -1 ? "" : entity.slice(separator + 4);
+  const headers: Record<string, string> = {};
+
+  for (const line of head.replace(/\r\n[ \t]+/g, " ").split("\r\n")) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Decode a part body (latin1 string of raw bytes) to UTF-8 text
+ */
+function decodeBody(body: string, encoding = "7bit"): string {
+  switch (encoding.toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf-8");
+    case "quoted-printable": {
+      const bytes = body
+        .replace(/=\r\n/g, "")
+        .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      return Buffer.from(bytes, "latin1").toString("utf-8");
+    }
+    default:
+      return Buffer.from(body, "latin1").toString("utf-8");
+  }
+}
+
+/**
+ * Parse a captured message, collecting the first text/plain and text/html parts
+ */
+function parseMessage(raw: string, envelope: { from: string; to: string[]; user?: string }) {
+  const { headers, body } = splitEntity(raw);
+  const mail: CapturedMail = { ...envelope, headers, raw };
+
+  const collect = (partHeaders: Record<string, string>, partBody: string) => {
+    const type = partHeaders["content-type"] ?? "text/plain";
+    const boundary = type.match(/boundary="?([^";]+)"?/)?.[1];
+
+    if (type.startsWith("multipart/") && boundary) {
+      const parts = partBody.split(`--${boundary}`).slice(1);
+      for (const part of parts) {
+        if (part.startsWith("--")) break;
+        const entity = splitEntity(part.replace(/^\r\n/, ""));
+        collect(entity.headers, entity.body.replace(/\r\n$/, ""));
+      }
+      return;
+    }
+
+    const text = decodeBody(partBody, partHeaders["content-transfer-encoding"]);
+    if (type.startsWith("text/html")) {
+      mail.html ??= text;
+    } else if (type.startsWith("text/plain")) {
+      mail.text ??= text;
+    }
+  };
+
+  collect(headers, body);
+  return mail;
+}
@@ -0,0 +1,44 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * A request received by the webhook capture, with its JSON body parsed
+ */
+export interface CapturedRequest {
+  method: string;
+  url: string;
+  body: unknown;
+}
+
+/**
+ * Local webhook endpoint (Slack, Discord and the like) that keeps every request and answers
+ * with a message ID, as Discord does with `?wait=true`
+ */
+export class WebhookCapture {
+  readonly requests: CapturedRequest[] = [];
+  private server: Server | undefined;
+
+  /**
+   * Start listening on a free port, returning the webhook URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+
+      this.requests.push({ method: req.method!, url: req.url!, body: JSON.parse(body) });
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ id: `message-${this.requests.length}` }));
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/webhook`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { canonicalizeUrl } from "../src/urls.js";
+
+describe("canonicalizeUrl", () => {
+  it("strips tracking parameters and keeps the others, sorted", () => {
+    assert.equal(
+      canonicalizeUrl(
+        "https://example.com/post?utm_source=hn&b=2&fbclid=x&a=1&gclid=y&UTM_MEDIUM=z"
+      ),
+      "example.com/post?a=1&b=2"
+    );
+  });
+
+  it("keeps a ref parameter unless it names the referring site", () => {
+    assert.equal(
+      canonicalizeUrl("https://github.com/acme/tool/blob/file.ts?ref=main"),
+      "github.com/acme/tool/blob/file.ts?ref=main"
+    );
+    assert.equal(
+      canonicalizeUrl("https://github.com/acme/tool?ref=v1.2"),
+      "github.com/acme/tool?ref=v1.2"
+    );
+    assert.equal(
+      canonicalizeUrl("https://example.com/a?ref=news.ycombinator.com"),
+      "example.com/a"
+    );
+    assert.equal(canonicalizeUrl("https://example.com/a?ref=https://t.co/abc"), "example.com/a");
+  });
+
+  it("ignores the scheme, fragment, trailing slashes, index pages and edition hosts", () => {
+    const canonical = "example.com/blog/post";
+    for (const url of [
+      "http://www.example.com/blog/post/",
+      "https://m.example.com/blog/post#comments",
+      "https://amp.example.com/blog/post/amp/",
+      "https://example.com/blog/post/index.html",
+    ]) {
+      assert.equal(canonicalizeUrl(url), canonical, url);
+    }
+  });
+
+  it("unwraps AMP cache URLs to the publisher's page", () => {
+    assert.equal(
+      canonicalizeUrl("https://www.google.com/amp/s/example.com/news/story"),
+      "example.com/news/story"
+    );
+    assert.equal(
+      canonicalizeUrl("https://example-com.cdn.ampproject.org/c/s/example.com/news/story"),
+      "example.com/news/story"
+    );
+  });
+
+  it("keeps ports and returns invalid URLs trimmed as they are", () => {
+    assert.equal(canonicalizeUrl("http://localhost:8080/x/"), "localhost:8080/x");
+    assert.equal(canonicalizeUrl("  not a url "), "not a url");
+  });
+});